@@ -0,0 +1,66 @@
+// 由 Arduino Core 的 PeripheralPins.c 和引脚表 CSV 生成芯片 JSON
+// 用法: pnpm run import:pins <PeripheralPins.c> <pins.csv> --name CH32L103C8T6 --package LQFP48
+//         [--family CH32L103] [--core "RISC-V (QingKe V4C)"] [--flash 64K] [--sram 20K] [--datasheet URL] [--out file.json]
+//       pnpm run import:pins --normalize <existing.json>
+//   --normalize 按导入结果的键顺序和排版重新输出现有芯片文件，用于和导入结果做 diff
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { createJiti } from 'jiti'
+
+const root = fileURLToPath(new URL('..', import.meta.url))
+const jiti = createJiti(import.meta.url, { alias: { '@': join(root, 'src') } })
+const { importPeripheralPins, normalizeChipData, formatChipJson } = await jiti.import('@/utils/peripheralPinsImporter')
+const { validateChipData } = await jiti.import('@/utils/chipValidator')
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    name: { type: 'string' },
+    package: { type: 'string' },
+    vendor: { type: 'string' },
+    family: { type: 'string' },
+    core: { type: 'string' },
+    flash: { type: 'string' },
+    sram: { type: 'string' },
+    datasheet: { type: 'string' },
+    out: { type: 'string' },
+    normalize: { type: 'string' }
+  }
+})
+
+// 通过 pnpm run 调用时工作目录是 web/，相对路径按调用者所在目录解析
+const cwd = process.env.INIT_CWD || process.cwd()
+
+function output(text) {
+  if (values.out) {
+    writeFileSync(resolve(cwd, values.out), text)
+    console.error(`Wrote ${values.out}`)
+  } else {
+    process.stdout.write(text)
+  }
+}
+
+if (values.normalize) {
+  output(formatChipJson(normalizeChipData(JSON.parse(readFileSync(resolve(cwd, values.normalize), 'utf8')))))
+  process.exit(0)
+}
+
+const [sourceFile, csvFile] = positionals
+if (!sourceFile || !csvFile || !values.name || !values.package) {
+  console.error('Usage: import-peripheral-pins.mjs <PeripheralPins.c> <pins.csv> --name <chip> --package <package> [--out file.json]')
+  process.exit(2)
+}
+
+const { chip, warnings } = importPeripheralPins(
+  readFileSync(resolve(cwd, sourceFile), 'utf8'),
+  readFileSync(resolve(cwd, csvFile), 'utf8'),
+  values
+)
+// 提示信息写到 stderr，stdout 只有 JSON，便于重定向或 diff
+warnings.forEach(warning => console.error(`  warning ${warning}`))
+validateChipData(chip)
+  .filter(issue => issue.severity !== 'info')
+  .forEach(issue => console.error(`  ${issue.severity.padEnd(7)} ${issue.message}`))
+output(formatChipJson(chip))
@@ -0,0 +1,55 @@
+// 由 STM32 开放引脚数据 (STM32_open_pin_data/mcu) 生成芯片 JSON
+// 用法: pnpm run import:stm32 <mcu/STM32F401C(B-C)Ux.xml> [--gpio <GPIO-xxx_Modes.xml>] [--name STM32F401CCU6] [--out file.json]
+//   未指定 --gpio 时按 MCU 文件中的 GPIO IP 版本在同目录的 IP/ 下查找
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join, relative, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { createJiti } from 'jiti'
+
+const root = fileURLToPath(new URL('..', import.meta.url))
+const jiti = createJiti(import.meta.url, { alias: { '@': join(root, 'src') } })
+const { importStm32Mcu, getGpioModesFileName } = await jiti.import('@/utils/stm32Importer')
+const { validateChipData } = await jiti.import('@/utils/chipValidator')
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    gpio: { type: 'string' },
+    name: { type: 'string' },
+    out: { type: 'string' }
+  }
+})
+
+// 通过 pnpm run 调用时工作目录是 web/，相对路径按调用者所在目录解析
+const cwd = process.env.INIT_CWD || process.cwd()
+const [mcuFile] = positionals
+if (!mcuFile) {
+  console.error('Usage: import-stm32.mjs <mcu.xml> [--gpio <GPIO-xxx_Modes.xml>] [--name <chip>] [--out file.json]')
+  process.exit(2)
+}
+
+const mcuPath = resolve(cwd, mcuFile)
+const mcuXml = readFileSync(mcuPath, 'utf8')
+let gpioFile = values.gpio && resolve(cwd, values.gpio)
+if (!gpioFile) {
+  const fileName = getGpioModesFileName(mcuXml)
+  const candidate = fileName && join(dirname(mcuPath), 'IP', fileName)
+  if (candidate && existsSync(candidate)) gpioFile = candidate
+}
+
+const { chip, warnings } = importStm32Mcu(mcuXml, gpioFile ? readFileSync(gpioFile, 'utf8') : undefined, { name: values.name })
+// 提示信息写到 stderr，stdout 只有 JSON
+if (gpioFile) console.error(`  using ${relative(cwd, gpioFile)}`)
+warnings.forEach(warning => console.error(`  warning ${warning}`))
+validateChipData(chip)
+  .filter(issue => issue.severity !== 'info')
+  .forEach(issue => console.error(`  ${issue.severity.padEnd(7)} ${issue.message}`))
+
+const text = JSON.stringify(chip, null, 2) + '\n'
+if (values.out) {
+  writeFileSync(resolve(cwd, values.out), text)
+  console.error(`Wrote ${values.out}`)
+} else {
+  process.stdout.write(text)
+}
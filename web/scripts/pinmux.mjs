@@ -0,0 +1,228 @@
+// 命令行工具：在浏览器之外校验芯片数据、由工程文件生成代码和文档
+// 用法: pnpm run pinmux <command> [options]
+//   validate <chip.json...> [--warnings] [--all]   校验芯片文件，有 error 时退出码为 1
+//   infer <chip.json> [--out file.json]            输出推断后的完整芯片定义 (ChipDefinition)
+//   export <project.pinmux.json> --format <fmt> [--chip chip.json] [--out dir] [--theme light|dark]
+//                                                   fmt: csv | c | dts | arduino | kicad | md | html | svg
+//                                                   未指定 --out 时单文件格式写到 stdout
+//   check <project.pinmux.json> [--chip chip.json]  检查失效的配置和信号冲突，有问题时退出码为 1
+//   --chip 省略时按工程文件中的厂商和型号在内置芯片 (src/assets/chips) 中查找
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join, relative, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { createJiti } from 'jiti'
+
+const root = fileURLToPath(new URL('..', import.meta.url))
+const jiti = createJiti(import.meta.url, { alias: { '@': join(root, 'src') } })
+const { inferChipData } = await jiti.import('@/utils/chipInferencer')
+const { validateChipData } = await jiti.import('@/utils/chipValidator')
+const { parseProject, checkProjectChip } = await jiti.import('@/utils/projectFile')
+const { validateConfigurations, toFunctionMap } = await jiti.import('@/utils/pinSettings')
+const { normalizeAnnotations } = await jiti.import('@/utils/pinAnnotations')
+const { findConfigurationConflicts } = await jiti.import('@/utils/pinAssignment')
+const { generateConfigurationCsv } = await jiti.import('@/utils/exportUtils')
+const { generateInitCode } = await jiti.import('@/utils/codeGenerator')
+const { generateZephyrOverlay } = await jiti.import('@/utils/zephyrOverlay')
+const { generateArduinoVariant } = await jiti.import('@/utils/arduinoVariant')
+const { generateKicadSymbol } = await jiti.import('@/utils/kicadSymbol')
+const { buildPinoutReport, renderReportHtml, renderReportMarkdown } = await jiti.import('@/utils/pinoutReport')
+const { renderPackageDiagram } = await jiti.import('@/utils/diagramExport')
+
+const USAGE = `Usage: pinmux <command> [options]
+  validate <chip.json...> [--warnings] [--all]
+  infer <chip.json> [--out file.json]
+  export <project.pinmux.json> --format csv|c|dts|arduino|kicad|md|html|svg [--chip chip.json] [--out dir] [--theme light|dark]
+  check <project.pinmux.json> [--chip chip.json]`
+
+// 导出格式 -> 生成的文件列表
+const EXPORTERS = {
+  csv: ({ chip, configurations, annotations }) => [
+    [`${chip.meta.name}_PinMux.csv`, generateConfigurationCsv(chip, configurations, annotations)]
+  ],
+  c: ({ chip, configurations, annotations }) => {
+    const { header, source } = generateInitCode(chip, configurations, annotations)
+    return [['pinmux.h', header], ['pinmux.c', source]]
+  },
+  dts: ({ chip, configurations, annotations }) => [
+    [`${chip.meta.name}.overlay`, generateZephyrOverlay(chip, configurations, annotations)]
+  ],
+  arduino: ({ chip, configurations, annotations }) => {
+    const { peripheralPins, variantHeader } = generateArduinoVariant(chip, configurations, annotations)
+    return [['PeripheralPins.c', peripheralPins], ['variant.h', variantHeader]]
+  },
+  kicad: ({ chip, configurations, annotations }) => [
+    [`${chip.meta.name}.kicad_sym`, generateKicadSymbol(chip, configurations, annotations)]
+  ],
+  md: project => {
+    const { chip, configurations, annotations } = project
+    return [[`${chip.meta.name}_Pinout.md`, renderReportMarkdown(buildPinoutReport(chip, configurations, annotations), renderDiagram(project))]]
+  },
+  html: project => {
+    const { chip, configurations, annotations } = project
+    return [[`${chip.meta.name}_Pinout.html`, renderReportHtml(buildPinoutReport(chip, configurations, annotations), renderDiagram(project))]]
+  },
+  svg: (project, theme) => [
+    [`${project.chip.meta.name}_${theme}.svg`, renderDiagram(project, theme)]
+  ]
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    chip: { type: 'string' },
+    format: { type: 'string' },
+    out: { type: 'string' },
+    theme: { type: 'string', default: 'light' },
+    warnings: { type: 'boolean' },
+    all: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' }
+  }
+})
+
+// 通过 pnpm run 调用时工作目录是 web/，相对路径按调用者所在目录解析
+const cwd = process.env.INIT_CWD || process.cwd()
+const [command, ...files] = positionals
+
+if (values.help || !command) {
+  console.log(USAGE)
+  process.exit(values.help ? 0 : 2)
+}
+
+const COMMANDS = { validate, infer, export: exportProject, check }
+if (!COMMANDS[command]) {
+  console.error(`Unknown command: ${command}\n\n${USAGE}`)
+  process.exit(2)
+}
+
+try {
+  process.exitCode = COMMANDS[command](files)
+} catch (e) {
+  console.error(`pinmux ${command}: ${e.message}`)
+  process.exitCode = 1
+}
+
+function validate(chipFiles) {
+  if (chipFiles.length === 0) usageError('validate needs at least one chip file')
+  const showWarnings = values.all || values.warnings
+  let errorCount = 0
+  for (const file of chipFiles) {
+    let issues
+    try {
+      issues = validateChipData(readJson(file))
+    } catch (e) {
+      issues = [{ severity: 'error', code: 'invalid-structure', message: e.message }]
+    }
+    errorCount += issues.filter(issue => issue.severity === 'error').length
+    const shown = issues.filter(issue =>
+      issue.severity === 'error' || (issue.severity === 'warning' && showWarnings) || values.all)
+    console.log(shown.length === 0 ? `${file}: ok` : file)
+    shown.forEach(issue => console.log(`  ${issue.severity.padEnd(7)} ${issue.message}`))
+  }
+  return errorCount > 0 ? 1 : 0
+}
+
+function infer([chipFile]) {
+  if (!chipFile) usageError('infer needs a chip file')
+  output(`${JSON.stringify(inferChipData(readJson(chipFile)), null, 2)}\n`)
+  return 0
+}
+
+function exportProject([projectFile]) {
+  if (!projectFile) usageError('export needs a project file')
+  const exporter = EXPORTERS[values.format]
+  if (!exporter) usageError(`--format must be one of ${Object.keys(EXPORTERS).join(', ')}`)
+  if (!['light', 'dark'].includes(values.theme)) usageError('--theme must be light or dark')
+
+  const project = loadProject(projectFile)
+  project.warnings.forEach(warning => console.error(`  warning ${warning}`))
+  const outputs = exporter(project, values.theme)
+
+  if (!values.out) {
+    if (outputs.length > 1) usageError(`--format ${values.format} writes ${outputs.length} files; use --out <dir>`)
+    process.stdout.write(outputs[0][1])
+    return 0
+  }
+  const dir = resolve(cwd, values.out)
+  mkdirSync(dir, { recursive: true })
+  for (const [fileName, content] of outputs) {
+    writeFileSync(join(dir, fileName), content)
+    console.error(`Wrote ${relative(cwd, join(dir, fileName))}`)
+  }
+  return 0
+}
+
+function check([projectFile]) {
+  if (!projectFile) usageError('check needs a project file')
+  const { chip, configurations, dropped, warnings } = loadProject(projectFile)
+  const conflicts = findConfigurationConflicts(chip, toFunctionMap(configurations))
+
+  console.log(`${chip.meta.name} (${chip.meta.package}): ${Object.keys(configurations).length} assignment(s)`)
+  warnings.forEach(warning => console.log(`  warning ${warning}`))
+  dropped.forEach(item => console.log(`  error   ${item.pin} → ${item.function}: ${item.reason}`))
+  conflicts.forEach(conflict => console.log(`  error   ${conflict.message}`))
+
+  const errorCount = dropped.length + conflicts.length
+  console.log(errorCount === 0 ? 'No conflicts' : `${errorCount} problem(s)`)
+  return errorCount > 0 ? 1 : 0
+}
+
+/**
+ * 读取工程文件和对应的芯片，按编辑器打开工程时的规则剔除失效配置
+ */
+function loadProject(projectFile) {
+  const project = parseProject(readFileSync(resolve(cwd, projectFile), 'utf8'))
+  const chip = inferChipData(values.chip ? readJson(values.chip) : findBundledChip(project.chip))
+  const { valid, dropped } = validateConfigurations(chip, project.assignments)
+  const warnings = [
+    ...checkProjectChip(project, chip),
+    ...(command === 'check' ? [] : dropped.map(item => `${item.pin} → ${item.function} was skipped: ${item.reason}`))
+  ]
+  return {
+    chip,
+    configurations: valid,
+    annotations: normalizeAnnotations(chip, project.annotations),
+    // 导出内容只取决于工程文件，日期用保存时间而不是当前时间
+    date: project.savedAt.slice(0, 10) || undefined,
+    dropped,
+    warnings
+  }
+}
+
+function findBundledChip({ vendor, name, package: packageName }) {
+  for (const file of findJsonFiles(join(root, 'src/assets/chips'))) {
+    const data = JSON.parse(readFileSync(file, 'utf8'))
+    if (data.meta?.vendor === vendor && data.meta?.name === name && data.meta?.package === packageName) return data
+  }
+  throw new Error(`${vendor} ${name} (${packageName}) is not a bundled chip; pass its definition with --chip <chip.json>`)
+}
+
+function findJsonFiles(dir) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) return findJsonFiles(path)
+    return entry.name.endsWith('.json') ? [path] : []
+  })
+}
+
+function renderDiagram({ chip, configurations, annotations, date }, theme = 'light') {
+  return renderPackageDiagram(chip, configurations, annotations, { theme, date })
+}
+
+function readJson(file) {
+  return JSON.parse(readFileSync(resolve(cwd, file), 'utf8'))
+}
+
+function output(text) {
+  if (values.out) {
+    writeFileSync(resolve(cwd, values.out), text)
+    console.error(`Wrote ${values.out}`)
+  } else {
+    process.stdout.write(text)
+  }
+}
+
+function usageError(message) {
+  console.error(`pinmux ${command}: ${message}\n\n${USAGE}`)
+  process.exit(2)
+}
@@ -0,0 +1,46 @@
+// 校验 src/assets/chips 下所有芯片数据
+// 用法: pnpm run validate:chips [--warnings] [--all]
+//   默认只列出 error；--warnings 同时列出 warning；--all 列出包括 info 在内的全部问题
+import { readdirSync, readFileSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createJiti } from 'jiti'
+
+const root = fileURLToPath(new URL('..', import.meta.url))
+const jiti = createJiti(import.meta.url, { alias: { '@': join(root, 'src') } })
+const { validateChipData } = await jiti.import('@/utils/chipValidator')
+
+const showAll = process.argv.includes('--all')
+const showWarnings = showAll || process.argv.includes('--warnings')
+
+function findJsonFiles(dir) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) return findJsonFiles(path)
+    return entry.name.endsWith('.json') ? [path] : []
+  })
+}
+
+let errorCount = 0
+let warningCount = 0
+for (const file of findJsonFiles(join(root, 'src/assets/chips')).sort()) {
+  let issues
+  try {
+    issues = validateChipData(JSON.parse(readFileSync(file, 'utf8')))
+  } catch (e) {
+    issues = [{ severity: 'error', code: 'invalid-structure', message: e.message }]
+  }
+  const errors = issues.filter(issue => issue.severity === 'error')
+  const warnings = issues.filter(issue => issue.severity === 'warning')
+  errorCount += errors.length
+  warningCount += warnings.length
+
+  const shown = issues.filter(issue =>
+    issue.severity === 'error' || (issue.severity === 'warning' && showWarnings) || showAll)
+  if (shown.length === 0) continue
+  console.log(relative(root, file))
+  shown.forEach(issue => console.log(`  ${issue.severity.padEnd(7)} ${issue.message}`))
+}
+
+console.log(`\n${errorCount} error(s), ${warningCount} warning(s)${showWarnings ? '' : ' (use --warnings to list warnings)'}`)
+process.exit(errorCount > 0 ? 1 : 0)
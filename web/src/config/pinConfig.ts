@@ -1,5 +1,5 @@
 export const PIN_CATEGORIES = {
-  power: ['VDD', 'VCC', 'VBAT', 'VDDA', 'VIN', 'VDCID', 'VDCIA', 'VSW', 'VINTA'],
+  power: ['VDD', 'VCC', 'VBAT', 'VDDA', 'VIN', 'VIO', 'VDCID', 'VDCIA', 'VSW', 'VINTA'],
   gnd: ['VSS', 'GND', 'VSSA'],
   clock: ['OSC_IN', 'OSC_OUT', 'OSC32_IN', 'OSC32_OUT', 'X32M'],
   reset: ['NRST', 'RST', 'RESET'],
@@ -11,3 +11,22 @@ export const PIN_CATEGORIES = {
 export const GPIO_REGEX = /^P[A-Z]\d+$/
 
 export const DEFAULT_SPECIAL_TYPE = 'special'
+
+// 外设类型 (PeripheralDefinition.type) 的显示名称
+export const PERIPHERAL_TYPE_LABELS: Record<string, string> = {
+  uart: 'UART',
+  spi: 'SPI',
+  i2c: 'I2C',
+  i2s: 'I2S',
+  adc: 'ADC',
+  dac: 'DAC',
+  can: 'CAN',
+  usb: 'USB',
+  eth: 'ETH',
+  opa: 'OPA',
+  timer: 'Timer',
+  pwm: 'PWM',
+  fsmc: 'FSMC',
+  touchkey: 'TouchKey',
+  comparator: 'COMP'
+}
@@ -0,0 +1,128 @@
+/**
+ * WCH StdPeriph SDK 中与引脚复用相关的命名 (代码生成和 Arduino 变体导出使用)
+ */
+
+/**
+ * 一种 AFIO 重映射模式
+ */
+export interface RemapMode {
+  /** GPIO_PinRemapConfig 的参数，需要多个时依次调用 (如 USART1 的高位重映射) */
+  macros: string[]
+  /** 识别该模式的引脚 (信号 -> 引脚)：pinmap 中出现的这些信号都在对应引脚上即为该模式 */
+  pins: Record<string, string>
+}
+
+/**
+ * 一个 StdPeriph SDK 系列
+ */
+export interface StdPeriphFamily {
+  /** 匹配 ChipMeta.family */
+  pattern: RegExp
+  /** 器件头文件 */
+  header: string
+  /** 外设名 (芯片数据中的名称) -> 非默认的重映射模式，按 SDK 中的定义顺序 */
+  remaps: Record<string, RemapMode[]>
+  /** 芯片数据中的外设名与 SDK 时钟名不一致的情况 */
+  clockAliases?: Record<string, string>
+}
+
+const remap = (macros: string | string[], pins: Record<string, string>): RemapMode => ({
+  macros: Array.isArray(macros) ? macros : [macros],
+  pins
+})
+
+// CH32V10x / V20x / V30x 共有的 AFIO_PCFR1 重映射 (与 STM32F1 相同)
+const F1_REMAPS: Record<string, RemapMode[]> = {
+  SPI1: [remap('GPIO_Remap_SPI1', { SCK: 'PB3' })],
+  I2C1: [remap('GPIO_Remap_I2C1', { SCL: 'PB8' })],
+  USART1: [remap('GPIO_Remap_USART1', { TX: 'PB6' })],
+  USART2: [remap('GPIO_Remap_USART2', { TX: 'PD5' })],
+  USART3: [
+    remap('GPIO_PartialRemap_USART3', { TX: 'PC10' }),
+    remap('GPIO_FullRemap_USART3', { TX: 'PD8' })
+  ],
+  TIM1: [
+    remap('GPIO_PartialRemap_TIM1', { CH1N: 'PA7' }),
+    remap('GPIO_FullRemap_TIM1', { CH1: 'PE9' })
+  ],
+  TIM2: [
+    remap('GPIO_PartialRemap1_TIM2', { CH1: 'PA15', CH3: 'PA2' }),
+    remap('GPIO_PartialRemap2_TIM2', { CH1: 'PA0', CH3: 'PB10' }),
+    remap('GPIO_FullRemap_TIM2', { CH1: 'PA15', CH3: 'PB10' })
+  ],
+  TIM3: [
+    remap('GPIO_PartialRemap_TIM3', { CH2: 'PB5' }),
+    remap('GPIO_FullRemap_TIM3', { CH2: 'PC7' })
+  ],
+  TIM4: [remap('GPIO_Remap_TIM4', { CH1: 'PD12' })],
+  CAN1: [
+    remap('GPIO_Remap1_CAN1', { RX: 'PB8' }),
+    remap('GPIO_Remap2_CAN1', { RX: 'PD0' })
+  ]
+}
+
+// CH32V20x / V30x 的 USART1 有 4 种映射，高位在 AFIO_PCFR2 中
+const USART1_HIGH_BIT_REMAPS: RemapMode[] = [
+  ...F1_REMAPS.USART1!,
+  remap('GPIO_Remap_USART1_HighBit', { TX: 'PB15' }),
+  remap(['GPIO_Remap_USART1', 'GPIO_Remap_USART1_HighBit'], { TX: 'PA6' })
+]
+
+/**
+ * 代码生成支持的系列，未列出的系列 (如 CH58x) 不是 StdPeriph 目标
+ * 表中没有的重映射不猜测宏名，由生成器报告
+ */
+export const STDPERIPH_FAMILIES: StdPeriphFamily[] = [
+  {
+    pattern: /^CH32V003/i,
+    header: 'ch32v00x.h',
+    remaps: {
+      SPI1: [remap('GPIO_Remap_SPI1', { NSS: 'PC0' })],
+      I2C1: [
+        remap('GPIO_PartialRemap_I2C1', { SCL: 'PD1' }),
+        remap('GPIO_FullRemap_I2C1', { SCL: 'PC5' })
+      ],
+      UART1: [
+        remap('GPIO_PartialRemap1_USART1', { TX: 'PD0' }),
+        remap('GPIO_PartialRemap2_USART1', { TX: 'PD6' }),
+        remap('GPIO_FullRemap_USART1', { TX: 'PC0' })
+      ],
+      TIM1: [
+        remap('GPIO_PartialRemap1_TIM1', { CH1: 'PC6' }),
+        remap('GPIO_PartialRemap2_TIM1', { ETR: 'PD4' }),
+        remap('GPIO_FullRemap_TIM1', { CH1: 'PC4' })
+      ],
+      TIM2: [
+        remap('GPIO_PartialRemap1_TIM2', { CH2: 'PC2' }),
+        remap('GPIO_PartialRemap2_TIM2', { CH1: 'PC1', CH2: 'PD3' }),
+        remap('GPIO_FullRemap_TIM2', { CH2: 'PC7' })
+      ]
+    },
+    clockAliases: { UART1: 'USART1' }
+  },
+  {
+    pattern: /^CH32V00[2-7]/i,
+    header: 'ch32v00X.h',
+    remaps: {}
+  },
+  {
+    pattern: /^CH32V10/i,
+    header: 'ch32v10x.h',
+    remaps: F1_REMAPS
+  },
+  {
+    pattern: /^CH32V20/i,
+    header: 'ch32v20x.h',
+    remaps: { ...F1_REMAPS, USART1: USART1_HIGH_BIT_REMAPS }
+  },
+  {
+    pattern: /^CH32V30/i,
+    header: 'ch32v30x.h',
+    remaps: {
+      ...F1_REMAPS,
+      USART1: USART1_HIGH_BIT_REMAPS,
+      TIM8: [remap('GPIO_Remap_TIM8', { CH1: 'PB6' })],
+      SPI3: [remap('GPIO_Remap_SPI3', { SCK: 'PC10' })]
+    }
+  }
+]
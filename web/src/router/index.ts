@@ -1,13 +1,42 @@
-import { createRouter, createWebHistory } from 'vue-router'
+import { createRouter, createWebHashHistory } from 'vue-router'
 import PinMuxEditor from '@/view/PinMuxEditor.vue'
 
 const router = createRouter({
-  history: createWebHistory(import.meta.env.BASE_URL),
+  // GitHub Pages 没有 SPA 回退，使用 hash 模式保证子路由可以直接打开和刷新
+  history: createWebHashHistory(import.meta.env.BASE_URL),
   routes: [
     {
       path: '/',
       name: 'home',
       component: PinMuxEditor
+    },
+    {
+      // 分享链接：芯片由路径确定，配置压缩后放在查询参数 c 中
+      path: '/chip/:vendor/:name',
+      name: 'chip',
+      component: PinMuxEditor
+    },
+    {
+      path: '/compare',
+      name: 'compare',
+      component: () => import('@/view/ChipCompare.vue')
+    },
+    {
+      path: '/finder',
+      name: 'finder',
+      component: () => import('@/view/ChipFinder.vue')
+    },
+    {
+      // 由 Arduino Core 的 PeripheralPins.c 生成芯片 JSON
+      path: '/import',
+      name: 'import',
+      component: () => import('@/view/ChipImporter.vue')
+    },
+    {
+      // 芯片定义编辑器，?vendor=&name= 打开内置芯片
+      path: '/editor',
+      name: 'chip-editor',
+      component: () => import('@/view/ChipEditor.vue')
     }
   ],
 })
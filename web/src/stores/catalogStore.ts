@@ -0,0 +1,136 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { ChipMeta } from '@/types/chip'
+import { inferChipData } from '@/utils/chipInferencer'
+import { deleteLocalChip, getLocalChipPath, isLocalChipPath, listLocalChips, saveLocalChip } from '@/utils/localChips'
+
+// 动态导入：每个 value 是 () => Promise<module>
+const chipModules = import.meta.glob('@/assets/chips/**/*.json')
+
+// 菜单条目（仅元数据）；local 为用户加载、保存在 IndexedDB 中的芯片
+export interface ChipEntry { path: string; vendor: string; family: string; name: string; package: string; local?: boolean }
+
+/**
+ * 芯片目录 (Chip Catalogue)
+ * 懒加载 assets/chips 下的所有芯片 JSON 和本地芯片，供编辑器、迁移和对比等页面共用
+ */
+export const useCatalogStore = defineStore('catalog', () => {
+  const entries = ref<ChipEntry[]>([])
+  const isLoading = ref(true)
+
+  // 完整芯片数据缓存：path -> full JSON
+  const chipDataCache = new Map<string, any>()
+  let loadPromise: Promise<void> | null = null
+
+  /**
+   * 异步加载所有芯片数据，多次调用只加载一次
+   */
+  function loadCatalog(): Promise<void> {
+    if (!loadPromise) loadPromise = loadAllChipEntries()
+    return loadPromise
+  }
+
+  async function loadAllChipEntries() {
+    const loaded: ChipEntry[] = []
+    // 并行加载所有 JSON 文件（每个是独立 chunk）
+    await Promise.all(Object.entries(chipModules).map(async ([path, loader]) => {
+      try {
+        const mod: any = await loader()
+        const data = mod.default || mod
+        chipDataCache.set(path, data)
+        loaded.push(toEntry(path, data))
+      } catch (e) {
+        console.error(`Failed to load chip: ${path}`, e)
+      }
+    }))
+
+    // 本地芯片不可用 (如隐私模式下没有 IndexedDB) 时只显示内置芯片
+    try {
+      for (const record of await listLocalChips()) {
+        chipDataCache.set(record.path, record.data)
+        loaded.push(toEntry(record.path, record.data))
+      }
+    } catch (e) {
+      console.error('Failed to load local chips', e)
+    }
+
+    entries.value = loaded
+    isLoading.value = false
+  }
+
+  function toEntry(path: string, raw: unknown): ChipEntry {
+    const data = raw as { meta?: Partial<ChipMeta> }
+    return {
+      path,
+      vendor: data.meta?.vendor || 'Unknown',
+      family: data.meta?.family || 'Unknown',
+      name: data.meta?.name || path,
+      package: data.meta?.package || 'Unknown',
+      ...(isLocalChipPath(path) ? { local: true } : {})
+    }
+  }
+
+  /**
+   * 添加或更新本地芯片 (同一厂商、型号和封装覆盖原有的本地芯片)
+   * @throws 芯片数据无法推断，或与内置芯片重名时抛出错误
+   */
+  async function saveLocalChipData(raw: unknown, fileName: string): Promise<ChipEntry> {
+    // IndexedDB 无法保存响应式代理，先转为普通对象
+    const data: unknown = JSON.parse(JSON.stringify(raw))
+    const { vendor, name, package: packageName } = inferChipData(data).meta
+    if (!vendor || !name || !packageName) {
+      throw new Error('Invalid chip data: "meta.vendor", "meta.name" and "meta.package" are required')
+    }
+    if (entries.value.some(e => !e.local && e.vendor === vendor && e.name === name && e.package === packageName)) {
+      throw new Error(`${vendor} ${name} (${packageName}) is a bundled chip; rename the local copy before loading it`)
+    }
+
+    const path = getLocalChipPath(vendor, name, packageName)
+    await saveLocalChip({ path, data, fileName, updatedAt: Date.now() })
+    chipDataCache.set(path, data)
+    const entry = toEntry(path, data)
+    entries.value = [...entries.value.filter(e => e.path !== path), entry]
+    return entry
+  }
+
+  async function removeLocalChip(entry: ChipEntry): Promise<void> {
+    if (!entry.local) return
+    await deleteLocalChip(entry.path)
+    chipDataCache.delete(entry.path)
+    entries.value = entries.value.filter(e => e.path !== entry.path)
+  }
+
+  // 根据菜单条目获取完整数据
+  function getChipData(entry: ChipEntry) {
+    return chipDataCache.get(entry.path)
+  }
+
+  // 按厂商、型号和封装查找 (不依赖系列)；未指定封装时取第一个同名芯片
+  function findEntryByName(vendor: string, name: string, packageName?: string): ChipEntry | undefined {
+    return entries.value.find(e => e.vendor === vendor && e.name === name && (!packageName || e.package === packageName))
+  }
+
+  // 按 Vendor -> Family 分组
+  const menuStructure = computed(() => {
+    const struct: Record<string, Record<string, ChipEntry[]>> = {}
+    for (const entry of entries.value) {
+      const v = entry.vendor
+      const f = entry.family
+      if (!struct[v]) struct[v] = {}
+      if (!struct[v][f]) struct[v][f] = []
+      struct[v][f].push(entry)
+    }
+    return struct
+  })
+
+  return {
+    entries,
+    isLoading,
+    menuStructure,
+    loadCatalog,
+    getChipData,
+    findEntryByName,
+    saveLocalChipData,
+    removeLocalChip
+  }
+})
@@ -1,18 +1,48 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { ChipDefinition, PinCapability } from '@/types/chip'
+import type { HistoryEntry, HistorySnapshot, PinAnnotation, PinConfig, PinMuxProject } from '@/types/pinmux'
 import { inferChipData } from '@/utils/chipInferencer'
+import { validateChipData, type ChipIssue } from '@/utils/chipValidator'
+import { assignPinFunction } from '@/utils/pinAssignment'
+import {
+  getDefaultPinConfig,
+  isSamePinConfig,
+  toFunctionMap,
+  validateConfigurations,
+  type DroppedAssignment
+} from '@/utils/pinSettings'
+import { isEmptyAnnotation, isSameAnnotations, normalizeAnnotations } from '@/utils/pinAnnotations'
+import { applyAllocationToConfig, type AllocationSolution } from '@/utils/allocationSolver'
+import type { MigrationResult } from '@/utils/chipMigration'
 
 import { useUIStore } from './uiStore'
 
 export const useChipStore = defineStore('chip', () => {
   // State
   const currentChip = ref<ChipDefinition | null>(null)
-  const pinConfigurations = ref<Record<string, string>>({}) // Key: PinName, Value: SelectedFunction
+  // 当前芯片数据的校验结果 (不含 info 级别)
+  const chipIssues = ref<ChipIssue[]>([])
+  const pinConfigurations = ref<Record<string, PinConfig>>({}) // Key: PinName, Value: Function + electrical settings
+  // Key: PinName, Value: SelectedFunction (派生，供只关心功能名称的逻辑使用)
+  const pinFunctionMap = computed(() => toFunctionMap(pinConfigurations.value))
+  const pinAnnotations = ref<Record<string, PinAnnotation>>({}) // Key: PinName, Value: 用户标签和备注
   const selectedPinName = ref<string | null>(null)
   const hoveredPinName = ref<string | null>(null)
   const isLoaded = computed(() => !!currentChip.value)
 
+  // History (Undo/Redo)
+  const MAX_HISTORY = 100
+  const undoStack = ref<HistoryEntry[]>([])
+  const redoStack = ref<HistoryEntry[]>([])
+  const canUndo = computed(() => undoStack.value.length > 0)
+  const canRedo = computed(() => redoStack.value.length > 0)
+  // 每次撤销/重做恢复快照时递增，供组件重新同步派生状态（如当前选中的 pinmap）
+  const historyRevision = ref(0)
+
+  // 当前进行中的事务：嵌套调用只在最外层提交一次历史记录
+  let activeTransaction: { label: string; before: HistorySnapshot; depth: number } | null = null
+
   // Actions
   function loadChip(rawData: any) {
     let data: ChipDefinition
@@ -23,211 +53,314 @@ export const useChipStore = defineStore('chip', () => {
       return
     }
     currentChip.value = data
+    chipIssues.value = validateChipData(rawData).filter(issue => issue.severity !== 'info')
+    chipIssues.value.forEach(issue => console.warn(`Chip data ${issue.severity}: ${issue.message}`))
     selectedPinName.value = null // Reset selection on chip load
     // 尝试从 localStorage 加载配置
     const storageKey = `pinmux_config_${data.meta.name}`
     const savedConfig = localStorage.getItem(storageKey)
+    pinConfigurations.value = {} // 重置配置
+    pinAnnotations.value = {}
     if (savedConfig) {
       try {
         const parsed = JSON.parse(savedConfig)
-        // 校验每个已保存的函数名在当前芯片定义中仍然有效
-        const validated: Record<string, string> = {}
-        for (const [pinName, funcName] of Object.entries(parsed)) {
-          if (
-            typeof funcName === 'string' &&
-            funcName.length > 0 &&
-            data.pins[pinName]?.functions.includes(funcName)
-          ) {
-            validated[pinName] = funcName
-          } else {
-            console.warn(`Dropping stale config: ${pinName} -> ${funcName} (function no longer available)`)
-          }
-        }
-        pinConfigurations.value = validated
+        // 旧格式直接保存 引脚 -> 配置 映射；新格式为 { assignments, annotations }
+        const isEnvelope = parsed && typeof parsed === 'object' && 'assignments' in parsed
+        // 校验每个已保存的函数名在当前芯片定义中仍然有效 (旧格式的字符串值会自动迁移)
+        const { valid, dropped } = validateConfigurations(data, isEnvelope ? parsed.assignments : parsed)
+        dropped.forEach(item => {
+          console.warn(`Dropping stale config: ${item.pin} -> ${item.function} (${item.reason})`)
+        })
+        pinConfigurations.value = valid
+        pinAnnotations.value = isEnvelope ? normalizeAnnotations(data, parsed.annotations) : {}
       } catch (e) {
         console.error('Failed to parse saved configuration', e)
-        pinConfigurations.value = {}
       }
-    } else {
-      pinConfigurations.value = {} // 重置配置
     }
+
+    loadHistory()
   }
 
   function saveConfigurations() {
     if (!currentChip.value) return
     const storageKey = `pinmux_config_${currentChip.value.meta.name}`
     try {
-      localStorage.setItem(storageKey, JSON.stringify(pinConfigurations.value))
+      localStorage.setItem(storageKey, JSON.stringify({
+        assignments: pinConfigurations.value,
+        annotations: pinAnnotations.value
+      }))
     } catch (e) {
       console.error('Failed to save configuration (storage may be full):', e)
     }
   }
 
   function clearConfigurations() {
-    pinConfigurations.value = {}
-    if (currentChip.value) {
-      const storageKey = `pinmux_config_${currentChip.value.meta.name}`
-      localStorage.removeItem(storageKey)
+    transaction('Clear all configurations', () => {
+      pinConfigurations.value = {}
+    })
+  }
+
+  // --- History (Undo/Redo) ---
+
+  function takeSnapshot(): HistorySnapshot {
+    return { configurations: { ...pinConfigurations.value }, annotations: { ...pinAnnotations.value } }
+  }
+
+  function applySnapshot(snapshot: HistorySnapshot) {
+    pinConfigurations.value = { ...snapshot.configurations }
+    pinAnnotations.value = { ...snapshot.annotations }
+    historyRevision.value++
+    saveConfigurations()
+  }
+
+  function isSameSnapshot(a: HistorySnapshot, b: HistorySnapshot): boolean {
+    const keysA = Object.keys(a.configurations)
+    const keysB = Object.keys(b.configurations)
+    if (keysA.length !== keysB.length) return false
+    return keysA.every(key => isSamePinConfig(a.configurations[key], b.configurations[key])) &&
+      isSameAnnotations(a.annotations, b.annotations)
+  }
+
+  /**
+   * 将一组修改合并为一个可撤销的步骤
+   * 嵌套调用时只有最外层事务会生成历史记录；配置未发生变化时不记录
+   * @param label 操作描述，显示在历史面板中
+   */
+  function transaction<T>(label: string, fn: () => T): T {
+    if (!activeTransaction) {
+      activeTransaction = { label, before: takeSnapshot(), depth: 0 }
+    }
+    activeTransaction.depth++
+    try {
+      return fn()
+    } finally {
+      activeTransaction.depth--
+      if (activeTransaction.depth === 0) {
+        const { label: finalLabel, before } = activeTransaction
+        activeTransaction = null
+        commitHistory(finalLabel, before)
+      }
     }
   }
 
-  // Helper to find peripheral context from a function name
-  function findFunctionContext(funcName: string, pinName?: string) {
-    if (!currentChip.value?.peripherals) return null
-    
-    // Iterate all peripherals
-    for (const [periphName, def] of Object.entries(currentChip.value.peripherals)) {
-      if (!def.pinmaps) continue
-      
-      // Iterate all pinmaps
-      for (let mapIndex = 0; mapIndex < def.pinmaps.length; mapIndex++) {
-        const map = def.pinmaps[mapIndex]
-        if (!map) continue
-        const suffix = mapIndex === 0 ? '' : `_${mapIndex}`
-        
-        // Iterate all signals in the map
-        for (const [signalName, mapPin] of Object.entries(map)) {
-           // Optimization: if pinName is provided, mapPin must match
-           // Relaxed check: Only check if pinName is strictly provided and valid
-           if (pinName && mapPin !== pinName) continue 
-           
-           // Check if funcName matches expected patterns
-           // Pattern 1: Periph_Signal + Suffix
-           const full = `${periphName}_${signalName}${suffix}`
-           if (funcName === full) {
-             return { periphName, signalName, mapIndex, periphDef: def }
-           }
-           
-           // Pattern 2: Signal + Suffix (Short name)
-           if (funcName === `${signalName}${suffix}`) {
-              return { periphName, signalName, mapIndex, periphDef: def }
-           }
-        }
+  function commitHistory(label: string, before: HistorySnapshot) {
+    const after = takeSnapshot()
+    if (isSameSnapshot(before, after)) return
+
+    undoStack.value.push({ label, timestamp: Date.now(), before, after })
+    if (undoStack.value.length > MAX_HISTORY) {
+      undoStack.value.splice(0, undoStack.value.length - MAX_HISTORY)
+    }
+    redoStack.value = []
+    saveConfigurations()
+    saveHistory()
+  }
+
+  function undo() {
+    const entry = undoStack.value.pop()
+    if (!entry) return
+    redoStack.value.push(entry)
+    applySnapshot(entry.before)
+    saveHistory()
+  }
+
+  function redo() {
+    const entry = redoStack.value.pop()
+    if (!entry) return
+    undoStack.value.push(entry)
+    applySnapshot(entry.after)
+    saveHistory()
+  }
+
+  /**
+   * 跳转到历史中的某一步
+   * @param undoCount 跳转后撤销栈中保留的条目数 (0 表示回到最初状态)
+   */
+  function goToHistory(undoCount: number) {
+    const total = undoStack.value.length + redoStack.value.length
+    const target = Math.max(0, Math.min(undoCount, total))
+    while (undoStack.value.length > target) undo()
+    while (undoStack.value.length < target) redo()
+  }
+
+  function saveHistory() {
+    if (!currentChip.value) return
+    const storageKey = `pinmux_history_${currentChip.value.meta.name}`
+    try {
+      localStorage.setItem(storageKey, JSON.stringify({
+        undo: undoStack.value,
+        redo: redoStack.value
+      }))
+    } catch (e) {
+      console.error('Failed to save history (storage may be full):', e)
+    }
+  }
+
+  function loadHistory() {
+    undoStack.value = []
+    redoStack.value = []
+    if (!currentChip.value) return
+
+    const storageKey = `pinmux_history_${currentChip.value.meta.name}`
+    const saved = localStorage.getItem(storageKey)
+    if (!saved) return
+
+    const chip = currentChip.value
+    // 旧版本历史中的配置为字符串且没有标签，按与配置相同的规则迁移
+    const migrateSnapshot = (snapshot: Partial<HistorySnapshot> | undefined): HistorySnapshot => ({
+      configurations: validateConfigurations(chip, snapshot?.configurations).valid,
+      annotations: normalizeAnnotations(chip, snapshot?.annotations)
+    })
+    const migrate = (entry: HistoryEntry): HistoryEntry => ({
+      ...entry,
+      before: migrateSnapshot(entry.before),
+      after: migrateSnapshot(entry.after)
+    })
+
+    try {
+      const parsed = JSON.parse(saved)
+      const undoEntries: HistoryEntry[] = Array.isArray(parsed.undo) ? parsed.undo.map(migrate) : []
+      const redoEntries: HistoryEntry[] = Array.isArray(parsed.redo) ? parsed.redo.map(migrate) : []
+      // 历史的终点必须与当前配置一致，否则（如配置被校验剔除过）整段历史作废
+      const last = undoEntries[undoEntries.length - 1]
+      const current = takeSnapshot()
+      const consistent = last
+        ? isSameSnapshot(last.after, current)
+        : redoEntries.length === 0 || isSameSnapshot(redoEntries[redoEntries.length - 1]!.before, current)
+      if (!consistent) {
+        console.warn('Discarding saved history: it does not match the current configuration')
+        localStorage.removeItem(storageKey)
+        return
       }
+      undoStack.value = undoEntries
+      redoStack.value = redoEntries
+    } catch (e) {
+      console.error('Failed to parse saved history', e)
     }
-    return null
   }
 
   function setPinFunction(pinName: string, func: string) {
+    const label = func ? `${pinName} → ${func}` : `Clear ${pinName}`
+    transaction(label, () => applyPinFunction(pinName, func))
+  }
+
+  function applyPinFunction(pinName: string, func: string) {
     if (!currentChip.value) return
     const uiStore = useUIStore()
-    
-    // Create a mutable copy of configurations
-    let newConfig = { ...pinConfigurations.value }
-
-    // 如果选择的是默认功能或空，则移除配置
-    if (!func) {
-      delete newConfig[pinName]
-      pinConfigurations.value = newConfig
-      saveConfigurations()
-      return
-    }
 
     // 检查该引脚是否支持该功能
-    const supported = getPinFunctions(pinName)
-    if (!supported.includes(func)) {
+    if (func && !getPinFunctions(pinName).includes(func)) {
       console.warn(`Pin ${pinName} does not support function ${func}`)
       return
     }
 
-    // --- Conflict Resolution & Linkage Logic ---
-    const context = findFunctionContext(func, pinName)
-    
-    if (context) {
-      const { periphName, signalName, mapIndex, periphDef } = context
-      
-      // 1. Conflict Resolution: Clear same signal from other pins
-      for (const [otherPin, otherFunc] of Object.entries(newConfig)) {
-        if (otherPin === pinName) continue
-        
-        const otherContext = findFunctionContext(otherFunc) // No pin constraint for reverse lookup
-        if (otherContext && 
-            otherContext.periphName === periphName && 
-            otherContext.signalName === signalName) {
-           delete newConfig[otherPin]
-        }
+    // 冲突处理与同组信号联动见 assignPinFunction
+    const result = assignPinFunction(currentChip.value, pinFunctionMap.value, pinName, func)
+    if (!result.functions) {
+      if (result.conflicts.length > 0) {
+        uiStore.showModal(
+          '外设信号冲突警告',
+          `无法自动切换同组信号 (Peripheral: ${result.context?.periphName}):\n${result.conflicts.join('\n')}\n\n请先手动释放冲突引脚，再进行切换。`,
+          'warning'
+        )
       }
+      return // Abort operation
+    }
 
-      // 2. Group Switching (Linkage)
-      const targetPinmap = periphDef.pinmaps[mapIndex]
-      if (targetPinmap) {
-        const switchOperations: Array<{pin: string, func: string}> = []
-        const conflicts: string[] = []
-
-        for (const [sig, targetPin] of Object.entries(targetPinmap)) {
-          if (sig === signalName) continue // Skip self
-          
-          // Determine target function name
-          let targetFunc = ''
-          const suffix = mapIndex === 0 ? '' : `_${mapIndex}`
-          const possibleFunc1 = `${periphName}_${sig}${suffix}`
-          const possibleFunc2 = `${sig}${suffix}`
-          
-          const pinFuncs = getPinFunctions(targetPin)
-          if (pinFuncs.includes(possibleFunc1)) targetFunc = possibleFunc1
-          else if (pinFuncs.includes(possibleFunc2)) targetFunc = possibleFunc2
-          
-          if (!targetFunc) continue 
-
-          // Check if we should switch this signal
-          // Only switch if this signal is currently active on SOME pin
-          let signalActive = false
-          for (const [p, f] of Object.entries(newConfig)) {
-             const c = findFunctionContext(f)
-             if (c && c.periphName === periphName && c.signalName === sig) {
-               signalActive = true
-               break
-             }
-          }
-          
-          if (signalActive) {
-             const currentOwner = newConfig[targetPin]
-             // Check if target pin is free or already set correctly
-             if (!currentOwner || currentOwner === targetFunc) {
-               switchOperations.push({ pin: targetPin, func: targetFunc })
-             } else {
-               // Conflict
-               conflicts.push(`${sig} -> ${targetPin} (Occupied by ${currentOwner})`)
-             }
-          }
-        }
-        
-        if (conflicts.length > 0) {
-          // alert(`无法自动切换同组信号 (Peripheral: ${periphName}):\n${conflicts.join('\n')}\n请手动解决冲突。`)
-          uiStore.showModal(
-            '外设信号冲突警告',
-            `无法自动切换同组信号 (Peripheral: ${periphName}):\n${conflicts.join('\n')}\n\n请先手动释放冲突引脚，再进行切换。`,
-            'warning'
-          )
-          return // Abort operation
-        } else {
-          // Apply switches
-          // First clear old pins for these signals
-          switchOperations.forEach(op => {
-             const ctx = findFunctionContext(op.func)
-             if (ctx) {
-                for (const [p, f] of Object.entries(newConfig)) {
-                   const c = findFunctionContext(f)
-                   if (c && c.periphName === ctx.periphName && c.signalName === ctx.signalName) {
-                      delete newConfig[p]
-                   }
-                }
-             }
-          })
-          // Then set new
-          switchOperations.forEach(op => {
-             newConfig[op.pin] = op.func
-          })
-        }
-      }
+    // 整组切换作为一个历史步骤，使用更明确的描述
+    if (result.switched && result.context && activeTransaction?.depth === 1) {
+      activeTransaction.label = `Switch ${result.context.periphName} to pinmap ${result.context.mapIndex}`
     }
+    commitFunctionMap(result.functions)
+  }
 
-    // Set the requested pin
-    newConfig[pinName] = func
-    pinConfigurations.value = newConfig
+  // 按功能映射更新配置：功能未变的引脚保留其电气设置，新分配的功能使用默认设置
+  function commitFunctionMap(functions: Record<string, string>) {
+    const chip = currentChip.value
+    if (!chip) return
+    const next: Record<string, PinConfig> = {}
+    for (const [pin, func] of Object.entries(functions)) {
+      const existing = pinConfigurations.value[pin]
+      next[pin] = existing && existing.function === func ? existing : getDefaultPinConfig(chip, pin, func)
+    }
+    pinConfigurations.value = next
+  }
 
-    // 保存到 localStorage
-    saveConfigurations()
+  /**
+   * 修改引脚的电气设置 (模式/上下拉/速度/初始电平)
+   */
+  function updatePinSettings(pinName: string, changes: Partial<Omit<PinConfig, 'function'>>) {
+    const existing = pinConfigurations.value[pinName]
+    if (!existing) return
+    const description = Object.entries(changes).map(([key, value]) => `${key} → ${value}`).join(', ')
+    transaction(`${pinName} ${description}`, () => {
+      // 配置对象视为不可变，快照中保存的是引用
+      pinConfigurations.value = { ...pinConfigurations.value, [pinName]: { ...existing, ...changes } }
+    })
+  }
+
+  /**
+   * 修改引脚的网络标签/备注，两者都为空时移除该条目
+   */
+  function setPinAnnotation(pinName: string, changes: Partial<PinAnnotation>) {
+    const existing = pinAnnotations.value[pinName] || { label: '', note: '' }
+    const next: PinAnnotation = { ...existing, ...changes, label: (changes.label ?? existing.label).trim() }
+    if (next.label === existing.label && next.note === existing.note) return
+
+    const description = next.label !== existing.label
+      ? (next.label ? `label → ${next.label}` : 'remove label')
+      : 'edit note'
+    transaction(`${pinName} ${description}`, () => {
+      const annotations = { ...pinAnnotations.value }
+      if (isEmptyAnnotation(next)) {
+        delete annotations[pinName]
+      } else {
+        annotations[pinName] = next
+      }
+      pinAnnotations.value = annotations
+    })
+  }
+
+  /**
+   * 应用自动分配求解器给出的方案 (作为一个可撤销步骤)
+   */
+  function applyAllocation(solution: AllocationSolution) {
+    const chip = currentChip.value
+    if (!chip) return
+    const label = `Auto-allocate ${[...new Set(solution.placements.map(p => p.peripheral))].join(', ')}`
+    transaction(label, () => {
+      commitFunctionMap(applyAllocationToConfig(chip, solution, pinFunctionMap.value))
+    })
+  }
+
+  /**
+   * 用工程文件中的配置和标签替换当前内容 (作为一个可撤销步骤)
+   * @returns 与当前芯片定义不再匹配而被剔除的配置项
+   */
+  function applyProject(project: PinMuxProject, label: string): DroppedAssignment[] {
+    if (!currentChip.value) return []
+    const { valid, dropped } = validateConfigurations(currentChip.value, project.assignments)
+    const annotations = normalizeAnnotations(currentChip.value, project.annotations)
+    transaction(label, () => {
+      pinConfigurations.value = valid
+      pinAnnotations.value = annotations
+    })
+    return dropped
+  }
+
+  /**
+   * 应用迁移结果 (需先加载目标芯片，作为目标芯片历史中的一个可撤销步骤)
+   */
+  function applyMigration(migration: MigrationResult, label: string) {
+    if (!currentChip.value) return
+    const chip = currentChip.value
+    // 再经过一次校验，防止迁移结果与已加载的芯片不一致
+    const { valid } = validateConfigurations(chip, migration.configurations)
+    const annotations = normalizeAnnotations(chip, migration.annotations)
+    transaction(label, () => {
+      pinConfigurations.value = valid
+      pinAnnotations.value = annotations
+    })
   }
 
   function setSelectedPin(pinName: string | null) {
@@ -239,6 +372,17 @@ export const useChipStore = defineStore('chip', () => {
   }
 
   function getPinConfiguration(pinName: string): string | undefined {
+    return pinConfigurations.value[pinName]?.function
+  }
+
+  function getPinAnnotation(pinName: string): PinAnnotation | undefined {
+    return pinAnnotations.value[pinName]
+  }
+
+  /**
+   * 获取引脚的完整配置 (功能 + 电气设置)
+   */
+  function getPinSettings(pinName: string): PinConfig | undefined {
     return pinConfigurations.value[pinName]
   }
 
@@ -301,7 +445,10 @@ export const useChipStore = defineStore('chip', () => {
 
   return {
     currentChip,
+    chipIssues,
     pinConfigurations,
+    pinFunctionMap,
+    pinAnnotations,
     selectedPinName,
     hoveredPinName,
     isLoaded,
@@ -309,11 +456,27 @@ export const useChipStore = defineStore('chip', () => {
     usageStats,
     loadChip,
     setPinFunction,
+    applyAllocation,
+    updatePinSettings,
+    setPinAnnotation,
+    applyProject,
+    applyMigration,
     setSelectedPin,
     setHoveredPin,
     getPinConfiguration,
+    getPinSettings,
+    getPinAnnotation,
     getPinFunctions,
     getPinType,
-    clearConfigurations
+    clearConfigurations,
+    undoStack,
+    redoStack,
+    canUndo,
+    canRedo,
+    historyRevision,
+    transaction,
+    undo,
+    redo,
+    goToHistory
   }
 })
@@ -18,12 +18,40 @@ export const useUIStore = defineStore('ui', () => {
     modalVisible.value = false
   }
 
+  // Dark Mode
+  const isDarkMode = ref(false)
+
+  function initTheme() {
+    const savedTheme = localStorage.getItem('theme')
+    isDarkMode.value = savedTheme === 'dark' ||
+      (!savedTheme && window.matchMedia('(prefers-color-scheme: dark)').matches)
+    updateTheme()
+  }
+
+  function toggleDarkMode() {
+    isDarkMode.value = !isDarkMode.value
+    updateTheme()
+  }
+
+  function updateTheme() {
+    if (isDarkMode.value) {
+      document.body.classList.add('dark-mode')
+      localStorage.setItem('theme', 'dark')
+    } else {
+      document.body.classList.remove('dark-mode')
+      localStorage.setItem('theme', 'light')
+    }
+  }
+
   return {
     modalVisible,
     modalTitle,
     modalContent,
     modalType,
     showModal,
-    closeModal
+    closeModal,
+    isDarkMode,
+    initTheme,
+    toggleDarkMode
   }
 })
@@ -30,6 +30,12 @@ export interface PhysicalPin {
   number: number
   /** 引脚丝印名称 (如 "PA1", "VSS", "NRST") */
   name: string
+  /** 球栅阵列封装 (BGA/WLCSP) 的焊球位置，如 "A1", "AA12" (行字母 + 列号) */
+  ball?: string
+  /** 网格行号 (从 1 开始)，与 ball 二选一 */
+  row?: number
+  /** 网格列号 (从 1 开始)，与 ball 二选一 */
+  col?: number
 }
 
 /**
@@ -43,6 +49,27 @@ export interface PackageInfo {
   pinCount: number
   /** 物理引脚列表，按顺序排列 */
   pins: PhysicalPin[]
+  /** 四边封装每边的引脚数 (可以为 0)；缺省时按 pinCount / 4 平均分配 */
+  sides?: QuadSides
+  /** 引脚 1 所在的角 (顶视图)，缺省为 "bottom-left" */
+  pin1Corner?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+  /** 引脚编号方向 (顶视图)：ccw 逆时针 (缺省)，cw 顺时针 */
+  direction?: 'ccw' | 'cw'
+  /** 底部散热焊盘的尺寸，相对芯片主体的比例 (0~1)；焊盘本身是编号为 0 的引脚 */
+  exposedPad?: {
+    width: number
+    height: number
+  }
+}
+
+/**
+ * 四边封装每边的引脚数
+ */
+export interface QuadSides {
+  left: number
+  bottom: number
+  right: number
+  top: number
 }
 
 /**
@@ -75,6 +102,14 @@ export interface PeripheralDefinition {
   signals: Record<string, string[]>
   /** 原始引脚映射方案列表 */
   pinmaps: Array<Record<string, string>>
+  /**
+   * pinmaps 的组织方式
+   * - remap (缺省)：每个 pinmap 是整体切换的一组引脚 (WCH / STM32F1 的 AFIO 重映射)
+   * - per-pin：每个 pinmap 只有一个信号的一个引脚选项，各信号独立选择 (STM32 按引脚选择 AF 编号)
+   */
+  pinmapStyle?: 'remap' | 'per-pin'
+  /** per-pin 时每个 pinmap 对应的 AF 编号，没有 AF 编号的 (如模拟功能) 为 null */
+  alternateFunctions?: Array<number | null>
 }
 
 /**
@@ -91,3 +126,18 @@ export interface ChipDefinition {
   /** 外设定义映射表 (Key: 外设名称，如 "USART1") */
   peripherals?: Record<string, PeripheralDefinition>
 }
+
+/**
+ * 芯片数据文件的原始结构 (嵌套格式，即 src/assets/chips 下的 JSON)
+ * 外设按 分类 -> 实例 -> pinmaps 组织，加载时由 inferChipData 推断出 ChipDefinition
+ */
+export interface RawChipData {
+  meta: ChipMeta
+  package: PackageInfo
+  peripherals: Record<string, RawPeripheralCategory>
+}
+
+/**
+ * 外设分类：Description 加若干外设实例 (`{ pinmaps: [...] }`)
+ */
+export type RawPeripheralCategory = { Description: string } & Record<string, unknown>
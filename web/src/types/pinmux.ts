@@ -0,0 +1,92 @@
+/** 引脚工作模式 */
+export type PinMode = 'input' | 'output' | 'alternate' | 'analog'
+/** 输出驱动方式 (output / alternate 模式有效) */
+export type PinDrive = 'push-pull' | 'open-drain'
+/** 上下拉 (input 模式有效) */
+export type PinPull = 'none' | 'up' | 'down'
+/** 输出翻转速度：low = 2MHz, medium = 10MHz, high = 最高速 (50MHz / 30MHz) */
+export type PinSpeed = 'low' | 'medium' | 'high'
+/** 输出初始电平 (output 模式有效) */
+export type PinLevel = 'low' | 'high'
+
+/**
+ * 单个引脚的配置 (Pin Configuration)
+ * 除功能名称外，还记录引脚的电气属性
+ */
+export interface PinConfig {
+  /** 选中的功能名称，如 "USART1_TX" */
+  function: string
+  mode: PinMode
+  drive: PinDrive
+  pull: PinPull
+  speed: PinSpeed
+  initialState: PinLevel
+}
+
+/**
+ * 用户为引脚添加的网络标签和备注，与功能配置无关，固定功能引脚也可添加
+ */
+export interface PinAnnotation {
+  /** 网络标签，如 "DBG_TX" */
+  label: string
+  /** 自由文本备注，如 "接调试座 J3" */
+  note: string
+}
+
+/**
+ * 配置快照 (Configuration Snapshot)
+ * 记录某一时刻用户对引脚的全部配置，用于撤销/重做
+ */
+export interface HistorySnapshot {
+  /** 引脚配置 (Key: 引脚名称) */
+  configurations: Record<string, PinConfig>
+  /** 引脚标签和备注 (Key: 引脚名称) */
+  annotations: Record<string, PinAnnotation>
+}
+
+/**
+ * 历史记录条目 (History Entry)
+ * 一次用户操作（可能包含多个引脚的联动修改）对应一个条目
+ */
+export interface HistoryEntry {
+  /** 操作的可读描述，如 "PA9 → USART1_TX" */
+  label: string
+  /** 操作发生的时间戳 (ms) */
+  timestamp: number
+  /** 操作前的配置 */
+  before: HistorySnapshot
+  /** 操作后的配置 */
+  after: HistorySnapshot
+}
+
+/**
+ * 工程文件中记录的芯片身份
+ */
+export interface ProjectChipIdentity {
+  vendor: string
+  family: string
+  name: string
+  package: string
+  /** 保存时芯片定义的哈希，用于发现芯片数据在此后被修改 */
+  hash: string
+}
+
+/**
+ * 可移植的工程文件 (*.pinmux.json)
+ */
+export interface PinMuxProject {
+  /** 文件格式标识，固定为 "pinmuxlab-project" */
+  format: string
+  /** 文件格式版本 */
+  version: number
+  /** 保存时间 (ISO 8601) */
+  savedAt: string
+  chip: ProjectChipIdentity
+  /**
+   * 引脚配置 (Key: 引脚名称)
+   * 版本 1 的文件中值为功能名称字符串，加载时会自动迁移
+   */
+  assignments: Record<string, PinConfig>
+  /** 引脚标签和备注 (Key: 引脚名称)，旧文件中可能不存在 */
+  annotations?: Record<string, PinAnnotation>
+}
@@ -0,0 +1,401 @@
+import type { ChipDefinition } from '@/types/chip'
+import { findFunctionContext, getSignalFunctionName } from '@/utils/pinmapUtils'
+
+/**
+ * 一条分配需求：某个外设需要的信号列表
+ */
+export interface AllocationRequest {
+  /** 外设名称，如 "USART1" */
+  peripheral: string
+  /** 需要的信号，如 ["TX", "RX"] */
+  signals: string[]
+}
+
+/**
+ * 一个信号在某个方案中的落点
+ */
+export interface SignalPlacement {
+  peripheral: string
+  signal: string
+  mapIndex: number
+  /** 目标引脚；pinmap 中没有该信号时为空 */
+  pin: string
+  /** 引脚上对应的功能名称；引脚不可用时为空 */
+  function: string
+  /** 该信号无法无冲突地放置 */
+  conflict: boolean
+}
+
+/**
+ * 冲突描述
+ * - unavailable: 该 pinmap 中没有此信号，或引脚不在当前封装上
+ * - occupied: 引脚已被现有配置中的其他功能占用
+ * - shared: 引脚被本方案中的另一个信号使用
+ */
+export interface AllocationConflict {
+  peripheral: string
+  signal: string
+  pin: string
+  reason: 'unavailable' | 'occupied' | 'shared'
+  /** 占用者描述 (occupied/shared 时) */
+  occupiedBy?: string
+}
+
+/**
+ * 一个候选方案
+ */
+export interface AllocationSolution {
+  /** 每个整体重映射外设选用的 pinmap 序号 (per-pin 外设的信号各自选择，不在其中) */
+  mapIndices: Record<string, number>
+  placements: SignalPlacement[]
+  conflicts: AllocationConflict[]
+  /** 使用非默认映射的外设数量 */
+  remapCount: number
+}
+
+export interface AllocationResult {
+  /** 按优劣排序的候选方案 (冲突数最少者优先，其次重映射最少) */
+  solutions: AllocationSolution[]
+  /** 最优方案是否无冲突 */
+  conflictFree: boolean
+  /** 搜索是否因步数上限提前终止 (结果可能不是全局最优) */
+  truncated: boolean
+}
+
+export interface SolveOptions {
+  /** 返回的候选方案数量上限 */
+  maxSolutions?: number
+  /** 搜索节点上限，防止大封装上组合爆炸 */
+  maxSteps?: number
+}
+
+export interface ParseResult {
+  requests: AllocationRequest[]
+  errors: string[]
+}
+
+/**
+ * 解析文本形式的分配需求
+ * 支持格式 (逗号/分号/换行分隔)：
+ * - `USART1 TX/RX`     指定信号
+ * - `SPI1 full`, `I2C1` 全部信号
+ * - `TIM2 CH1–CH3`     编号范围 (支持 - – ~)
+ */
+export function parseAllocationRequests(text: string, chip: ChipDefinition): ParseResult {
+  const requests: AllocationRequest[] = []
+  const errors: string[] = []
+  const peripherals = chip.peripherals || {}
+
+  const items = text.split(/[,;，；\n]+/).map(item => item.trim()).filter(Boolean)
+
+  for (const item of items) {
+    const [nameToken = '', ...specTokens] = item.split(/[\s:：]+/).filter(Boolean)
+    const periphName = Object.keys(peripherals).find(
+      name => name.toUpperCase() === nameToken.toUpperCase()
+    )
+    if (!periphName) {
+      errors.push(`Unknown peripheral "${nameToken}"`)
+      continue
+    }
+
+    const available = Object.keys(peripherals[periphName]!.signals)
+    const spec = specTokens.join(' ')
+    let signals: string[] = []
+
+    if (!spec || /^(full|all)$/i.test(spec)) {
+      signals = [...available]
+    } else {
+      for (const token of spec.split(/[\s/+|]+/).filter(Boolean)) {
+        const expanded = expandSignalRange(token)
+        for (const wanted of expanded) {
+          const signal = available.find(s => s.toUpperCase() === wanted.toUpperCase())
+          if (signal) {
+            if (!signals.includes(signal)) signals.push(signal)
+          } else {
+            errors.push(`${periphName} has no signal "${wanted}"`)
+          }
+        }
+      }
+    }
+
+    if (signals.length === 0) continue
+
+    // 同一外设多次出现时合并信号
+    const existing = requests.find(r => r.peripheral === periphName)
+    if (existing) {
+      signals.forEach(s => {
+        if (!existing.signals.includes(s)) existing.signals.push(s)
+      })
+    } else {
+      requests.push({ peripheral: periphName, signals })
+    }
+  }
+
+  return { requests, errors }
+}
+
+// 展开 "CH1-CH3" / "CH1–3" / "IN0~IN5" 形式的范围
+function expandSignalRange(token: string): string[] {
+  const match = token.match(/^([A-Za-z_]*?)(\d+)[-–~]([A-Za-z_]*?)(\d+)$/)
+  if (!match) return [token]
+
+  const [, prefix = '', startText = '0', endPrefix = '', endText = '0'] = match
+  if (endPrefix && endPrefix.toUpperCase() !== prefix.toUpperCase()) return [token]
+
+  const start = parseInt(startText, 10)
+  const end = parseInt(endText, 10)
+  if (end < start || end - start > 64) return [token]
+
+  const result: string[] = []
+  for (let i = start; i <= end; i++) result.push(`${prefix}${i}`)
+  return result
+}
+
+// 某个外设选用某个 pinmap 时的候选项
+interface PeripheralOption {
+  peripheral: string
+  mapIndex: number
+  /** per-pin 外设的单个信号 (pinmap 不代表整体重映射) */
+  perPin: boolean
+  placements: SignalPlacement[]
+  /** 不依赖其他外设即可确定的冲突 (unavailable / occupied / 组内共用引脚) */
+  conflicts: AllocationConflict[]
+}
+
+/**
+ * 在所有 pinmap 组合中搜索分配方案
+ * 现有配置中不属于本次需求信号的引脚视为锁定；需求信号自身的旧分配允许被移动
+ * 外设已有信号被锁定时，其余信号只在该信号所在的 pinmap 中搜索
+ * per-pin 外设 (按引脚选择 AF) 的每个信号独立选择引脚
+ */
+export function solveAllocation(
+  chip: ChipDefinition,
+  requests: AllocationRequest[],
+  existing: Record<string, string>,
+  options: SolveOptions = {}
+): AllocationResult {
+  const maxSolutions = options.maxSolutions ?? 5
+  const maxSteps = options.maxSteps ?? 200000
+  const packagePins = new Set(chip.package.pins.map(p => p.name))
+
+  // 1. 锁定的引脚：现有配置中与本次需求无关的分配
+  const requested = new Set(requests.flatMap(r => r.signals.map(s => `${r.peripheral}.${s}`)))
+  const locked = new Map<string, string>()
+  // 外设 -> 其锁定信号使用的 pinmap；AFIO 重映射按外设整体设置，其余信号只能使用同一 pinmap
+  const lockedMaps = new Map<string, number>()
+  for (const [pin, func] of Object.entries(existing)) {
+    const ctx = findFunctionContext(chip, func, pin)
+    if (ctx && requested.has(`${ctx.periphName}.${ctx.signalName}`)) continue
+    locked.set(pin, func)
+    if (ctx && ctx.periphDef.pinmapStyle !== 'per-pin') lockedMaps.set(ctx.periphName, ctx.mapIndex)
+  }
+
+  // 2. 为每个外设枚举 pinmap 候选项；per-pin 外设拆成每个信号一组候选项
+  const isPerPin = (request: AllocationRequest) => chip.peripherals?.[request.peripheral]?.pinmapStyle === 'per-pin'
+  const slots = requests.flatMap(request => isPerPin(request)
+    ? request.signals.map(signal => ({ peripheral: request.peripheral, signals: [signal] }))
+    : [request])
+  const candidates: PeripheralOption[][] = slots.map(slot => {
+    const def = chip.peripherals?.[slot.peripheral]
+    const pinmaps = def?.pinmaps?.length ? def.pinmaps : []
+    const perPin = isPerPin(slot)
+    const lockedMap = lockedMaps.get(slot.peripheral)
+    const opts = pinmaps
+      .map((map, mapIndex) => buildOption(chip, slot, map, mapIndex, locked, packagePins, perPin))
+      .filter(option => perPin
+        ? option.placements.some(placement => placement.pin) // 只保留包含该信号的 pinmap
+        : lockedMap === undefined || option.mapIndex === lockedMap)
+    // 冲突少、默认映射优先
+    return opts.sort((a, b) => a.conflicts.length - b.conflicts.length || a.mapIndex - b.mapIndex)
+  })
+
+  // 没有 pinmap 的外设无法分配，直接作为全量冲突
+  slots.forEach((request, index) => {
+    if (candidates[index]!.length > 0) return
+    candidates[index] = [{
+      peripheral: request.peripheral,
+      mapIndex: 0,
+      perPin: isPerPin(request),
+      placements: [],
+      conflicts: request.signals.map(signal => ({
+        peripheral: request.peripheral, signal, pin: '', reason: 'unavailable' as const
+      }))
+    }]
+  })
+
+  // 候选项少的外设先搜索，剪枝更早生效
+  const order = candidates.map((_, i) => i).sort((a, b) => candidates[a]!.length - candidates[b]!.length)
+
+  // 3. 分支限界搜索
+  let bestCost = Infinity
+  let steps = 0
+  let truncated = false
+  let saturated = false // 已找到足够多的无冲突方案，无需继续搜索
+  const found: AllocationSolution[] = []
+  const chosen: PeripheralOption[] = []
+  const usedPins = new Map<string, string>() // pin -> "PERIPH SIGNAL"
+
+  function search(depth: number, cost: number) {
+    if (truncated || saturated) return
+    if (++steps > maxSteps) {
+      truncated = true
+      return
+    }
+    if (cost > bestCost) return
+
+    if (depth === order.length) {
+      if (cost < bestCost) {
+        bestCost = cost
+        found.length = 0
+      }
+      if (found.length < maxSolutions * 10) found.push(buildSolution(chosen))
+      if (bestCost === 0 && found.length >= maxSolutions * 10) saturated = true
+      return
+    }
+
+    for (const option of candidates[order[depth]!]!) {
+      // 与已选外设共用引脚的信号记为 shared 冲突
+      const added: string[] = []
+      const sharedConflicts: AllocationConflict[] = []
+      for (const placement of option.placements) {
+        if (placement.conflict || !placement.pin) continue
+        const owner = usedPins.get(placement.pin)
+        if (owner) {
+          sharedConflicts.push({
+            peripheral: placement.peripheral,
+            signal: placement.signal,
+            pin: placement.pin,
+            reason: 'shared',
+            occupiedBy: owner
+          })
+        } else {
+          usedPins.set(placement.pin, `${placement.peripheral} ${placement.signal}`)
+          added.push(placement.pin)
+        }
+      }
+
+      const nextCost = cost + option.conflicts.length + sharedConflicts.length
+      if (nextCost <= bestCost) {
+        chosen.push({ ...option, conflicts: [...option.conflicts, ...sharedConflicts] })
+        search(depth + 1, nextCost)
+        chosen.pop()
+      }
+
+      added.forEach(pin => usedPins.delete(pin))
+      if (truncated || saturated) return
+    }
+  }
+
+  search(0, 0)
+
+  const solutions = found
+    .sort((a, b) => a.remapCount - b.remapCount || sumIndices(a) - sumIndices(b))
+    .slice(0, maxSolutions)
+
+  return {
+    solutions,
+    conflictFree: bestCost === 0,
+    truncated
+  }
+}
+
+function buildOption(
+  chip: ChipDefinition,
+  request: AllocationRequest,
+  map: Record<string, string>,
+  mapIndex: number,
+  locked: Map<string, string>,
+  packagePins: Set<string>,
+  perPin: boolean
+): PeripheralOption {
+  const placements: SignalPlacement[] = []
+  const conflicts: AllocationConflict[] = []
+  const ownPins = new Map<string, string>()
+
+  for (const signal of request.signals) {
+    const pin = map[signal] || ''
+    const func = pin && packagePins.has(pin)
+      ? getSignalFunctionName(chip, request.peripheral, signal, mapIndex, pin) || ''
+      : ''
+    const placement: SignalPlacement = {
+      peripheral: request.peripheral, signal, mapIndex, pin, function: func, conflict: true
+    }
+    placements.push(placement)
+
+    if (!func) {
+      conflicts.push({ peripheral: request.peripheral, signal, pin, reason: 'unavailable' })
+      continue
+    }
+    const lockedFunc = locked.get(pin)
+    if (lockedFunc) {
+      conflicts.push({ peripheral: request.peripheral, signal, pin, reason: 'occupied', occupiedBy: lockedFunc })
+      continue
+    }
+    // 同一 pinmap 内两个信号映射到同一引脚 (如 TIM2 CH1 与 ETR 都在 PA0)
+    const sibling = ownPins.get(pin)
+    if (sibling) {
+      conflicts.push({
+        peripheral: request.peripheral, signal, pin, reason: 'shared', occupiedBy: `${request.peripheral} ${sibling}`
+      })
+      continue
+    }
+    ownPins.set(pin, signal)
+    placement.conflict = false
+  }
+
+  return { peripheral: request.peripheral, mapIndex, perPin, placements, conflicts }
+}
+
+function buildSolution(chosen: PeripheralOption[]): AllocationSolution {
+  const mapIndices: Record<string, number> = {}
+  const placements: SignalPlacement[] = []
+  const conflicts: AllocationConflict[] = []
+
+  for (const option of chosen) {
+    if (!option.perPin) mapIndices[option.peripheral] = option.mapIndex
+    const sharedPins = new Set(option.conflicts.filter(c => c.reason === 'shared').map(c => `${c.signal}@${c.pin}`))
+    option.placements.forEach(p => {
+      placements.push({ ...p, conflict: p.conflict || sharedPins.has(`${p.signal}@${p.pin}`) })
+    })
+    conflicts.push(...option.conflicts)
+  }
+
+  return {
+    mapIndices,
+    placements,
+    conflicts,
+    remapCount: Object.values(mapIndices).filter(i => i !== 0).length
+  }
+}
+
+function sumIndices(solution: AllocationSolution): number {
+  return Object.values(solution.mapIndices).reduce((sum, i) => sum + i, 0)
+}
+
+/**
+ * 将方案转换为配置：先释放将要重新放置的信号的旧分配，再写入无冲突的落点
+ * 有冲突的信号保持原有分配不变
+ * @returns 新的完整配置 (不修改传入对象)
+ */
+export function applyAllocationToConfig(
+  chip: ChipDefinition,
+  solution: AllocationSolution,
+  existing: Record<string, string>
+): Record<string, string> {
+  const result = { ...existing }
+  const applied = solution.placements.filter(p => !p.conflict && p.pin && p.function)
+  const requested = new Set(applied.map(p => `${p.peripheral}.${p.signal}`))
+
+  for (const [pin, func] of Object.entries(result)) {
+    const ctx = findFunctionContext(chip, func, pin)
+    if (ctx && requested.has(`${ctx.periphName}.${ctx.signalName}`)) {
+      delete result[pin]
+    }
+  }
+
+  for (const placement of applied) {
+    result[placement.pin] = placement.function
+  }
+
+  return result
+}
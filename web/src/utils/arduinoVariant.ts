@@ -0,0 +1,331 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation, PinConfig } from '@/types/pinmux'
+import { getRemapMacros, toGpioMode, type GpioMode } from '@/utils/codeGenerator'
+import { getSignalFunctionName } from '@/utils/pinmapUtils'
+import { toCIdentifier, toUniqueCIdentifiers } from '@/utils/pinAnnotations'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 生成的 Arduino 变体文件 (arduino_core_ch32)
+ */
+export interface GeneratedVariant {
+  /** PeripheralPins.c 内容 */
+  peripheralPins: string
+  /** variant.h 内容 */
+  variantHeader: string
+}
+
+/**
+ * PinMap 数组中的一项
+ */
+interface PinMapEntry {
+  pin: string
+  instance: string
+  signal: string
+  mode: GpioMode
+  speed: PinConfig['speed']
+  /** AFIO 重映射标志，默认映射为 AFIO_NONE */
+  afio: string
+  /** 定时器通道 / ADC 通道 (仅 _EXT 数据) */
+  channel?: number
+  /** 互补输出通道 (CHxN) */
+  inverted?: boolean
+  /** 当前配置使用的引脚排在前面 */
+  configured: boolean
+  comment: string
+}
+
+// PinMap 数组 (按输出顺序) 及其所属的模块开关
+const PINMAP_ARRAYS: Array<{ name: string; module: string; ext?: boolean }> = [
+  { name: 'ADC', module: 'ADC_MODULE_ENABLED', ext: true },
+  { name: 'DAC', module: 'DAC_MODULE_ENABLED', ext: true },
+  { name: 'I2C_SDA', module: 'I2C_MODULE_ENABLED' },
+  { name: 'I2C_SCL', module: 'I2C_MODULE_ENABLED' },
+  { name: 'TIM', module: 'TIM_MODULE_ENABLED', ext: true },
+  { name: 'UART_TX', module: 'UART_MODULE_ENABLED' },
+  { name: 'UART_RX', module: 'UART_MODULE_ENABLED' },
+  { name: 'UART_RTS', module: 'UART_MODULE_ENABLED' },
+  { name: 'UART_CTS', module: 'UART_MODULE_ENABLED' },
+  { name: 'SPI_MOSI', module: 'SPI_MODULE_ENABLED' },
+  { name: 'SPI_MISO', module: 'SPI_MODULE_ENABLED' },
+  { name: 'SPI_SCLK', module: 'SPI_MODULE_ENABLED' },
+  { name: 'SPI_SSEL', module: 'SPI_MODULE_ENABLED' },
+  { name: 'CAN_RD', module: 'CAN_MODULE_ENABLED' },
+  { name: 'CAN_TD', module: 'CAN_MODULE_ENABLED' },
+  { name: 'USB', module: 'USBCON' },
+  // 没有对应 Arduino PinMap 的信号和未引出的引脚，core 不会定义该开关，仅供重新导入 PinMuxLab
+  { name: 'OTHER', module: 'PINMUXLAB_OTHER_PINS' }
+]
+
+// 外设类型 + 信号 -> PinMap 数组 (ADC / 定时器通道按正则单独处理)
+const SIGNAL_ARRAYS: Record<string, Record<string, string>> = {
+  uart: { TX: 'UART_TX', TXD: 'UART_TX', RX: 'UART_RX', RXD: 'UART_RX', RTS: 'UART_RTS', CTS: 'UART_CTS' },
+  spi: { MOSI: 'SPI_MOSI', MISO: 'SPI_MISO', SCK: 'SPI_SCLK', NSS: 'SPI_SSEL' },
+  i2c: { SDA: 'I2C_SDA', SCL: 'I2C_SCL' },
+  can: { TX: 'CAN_TD', RX: 'CAN_RD' },
+  usb: { DP: 'USB', DM: 'USB' },
+  dac: { OUT: 'DAC' }
+}
+
+// 默认方向为输入的信号 (未配置时使用浮空输入)
+const INPUT_SIGNALS = ['RX', 'RXD', 'CTS', 'MISO', 'DM', 'DP']
+
+// 数据文件中的外设名与 Arduino core 实例名不一致的情况
+const INSTANCE_ALIAS: Record<string, string> = {
+  ADC: 'ADC1'
+}
+
+/**
+ * 从芯片定义生成 Arduino core 的 PeripheralPins.c / variant.h
+ *
+ * - 遍历各外设的 pinmaps 生成 PinMap_UART_TX、PinMap_SPI_MOSI、PinMap_ADC 等数组，
+ *   非默认 pinmap 的 AFIO 标志取自 StdPeriph 重映射表 (GPIO_Remap_X -> AFIO_Remap_X_ENABLE)，
+ *   没有单个对应标志的 pinmap 不写入数组，在文件头部列出
+ * - 其余信号 (如 TIM1_ETR、ETH) 和封装未引出的引脚写入不参与编译的 PinMap_OTHER，
+ *   重新导入时可还原完整的芯片数据
+ * - 提供当前配置时，已配置的引脚使用其电气属性并排在数组前面，
+ *   variant.h 中的 PIN_SERIAL_* / PIN_SPI_* / PIN_WIRE_* 默认引脚也取自配置
+ */
+export function generateArduinoVariant(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig> = {},
+  annotations: Record<string, PinAnnotation> = {}
+): GeneratedVariant {
+  const entries = collectPinMapEntries(chip, configurations)
+  return {
+    peripheralPins: renderPeripheralPins(chip, entries),
+    variantHeader: renderVariantHeader(chip, entries, configurations, annotations)
+  }
+}
+
+function collectPinMapEntries(chip: ChipDefinition, configurations: Record<string, PinConfig>): Map<string, PinMapEntry[]> {
+  const bonded = new Set(chip.package.pins.map(pin => pin.name))
+  const arrays = new Map<string, PinMapEntry[]>()
+  const add = (array: string, entry: PinMapEntry) => {
+    const list = arrays.get(array) || []
+    // 同一引脚、同一实例在多个 pinmap 中以相同 AFIO 标志出现时只保留第一个
+    const duplicate = list.some(item =>
+      item.pin === entry.pin && item.instance === entry.instance && item.signal === entry.signal && item.afio === entry.afio)
+    if (!duplicate) {
+      list.push(entry)
+    }
+    arrays.set(array, list)
+  }
+
+  for (const [periphName, def] of Object.entries(chip.peripherals || {})) {
+    // 系统引脚 (实例名为空) 等无法写成 PinMap 实例的外设
+    if (!/^\w+$/.test(periphName)) continue
+    const instance = INSTANCE_ALIAS[periphName] || periphName
+    const perPin = def.pinmapStyle === 'per-pin'
+    def.pinmaps.forEach((map, mapIndex) => {
+      // per-pin 外设没有 AFIO 重映射，AF 编号只写在注释中
+      const afio = perPin ? 'AFIO_NONE' : getAfioFlag(chip, periphName, mapIndex)
+      if (!afio) return
+      const af = perPin ? def.alternateFunctions?.[mapIndex] : undefined
+
+      for (const [signal, pin] of Object.entries(map || {})) {
+        if (!/^P[A-Z]\d+$/.test(pin)) continue
+
+        let array = SIGNAL_ARRAYS[def.type]?.[signal]
+        let channel: number | undefined
+        let inverted: boolean | undefined
+        const adcMatch = def.type === 'adc' ? signal.match(/^IN(\d+)$/) : null
+        const timerMatch = def.type === 'timer' ? signal.match(/^CH(\d+)(N?)$/) : null
+        if (adcMatch) {
+          array = 'ADC'
+          channel = parseInt(adcMatch[1]!, 10)
+        } else if (timerMatch) {
+          array = 'TIM'
+          channel = parseInt(timerMatch[1]!, 10)
+          inverted = timerMatch[2] === 'N'
+        } else if (array === 'DAC') {
+          channel = parseInt(periphName.match(/(\d+)$/)?.[1] || '1', 10)
+        }
+        if (!array || !bonded.has(pin)) {
+          array = 'OTHER'
+          channel = undefined
+          inverted = undefined
+        }
+
+        // 当前配置的引脚使用其电气属性，否则按信号方向取默认值
+        const config = configurations[pin]
+        const configured = !!config && config.function === getSignalFunctionName(chip, periphName, signal, mapIndex, pin)
+        add(array, {
+          pin,
+          instance,
+          signal,
+          mode: configured ? toGpioMode(config!) : getDefaultMode(def.type, signal),
+          speed: configured ? config!.speed : 'high',
+          afio,
+          channel,
+          inverted,
+          configured,
+          comment: `${periphName}_${signal}${af !== null && af !== undefined
+            ? ` (AF${af})`
+            : mapIndex > 0 && !perPin ? ` (remap ${mapIndex})` : ''}`
+        })
+      }
+    })
+  }
+
+  for (const list of arrays.values()) {
+    list.sort((a, b) => Number(b.configured) - Number(a.configured) || compareNames(a.pin, b.pin))
+  }
+  return arrays
+}
+
+// 整体重映射外设的 pinmap -> AFIO 标志，表中没有或需要多个重映射宏时返回 undefined
+function getAfioFlag(chip: ChipDefinition, periphName: string, mapIndex: number): string | undefined {
+  if (mapIndex === 0) return 'AFIO_NONE'
+  const macros = getRemapMacros(chip, periphName, mapIndex)
+  return macros?.length === 1 ? `${macros[0]!.replace(/^GPIO_/, 'AFIO_')}_ENABLE` : undefined
+}
+
+function getDefaultMode(type: string, signal: string): GpioMode {
+  if (type === 'adc' || type === 'dac') return 'AIN'
+  if (type === 'i2c') return 'AF_OD'
+  if (INPUT_SIGNALS.includes(signal)) return 'IN_FLOATING'
+  return 'AF_PP'
+}
+
+// StdPeriph 模式 -> arduino_core_ch32 的 CH_MODE / CH_CNF / 上下拉
+function formatPinData(entry: PinMapEntry, ext: boolean): string {
+  const speed = entry.speed === 'low' ? '2MHz' : entry.speed === 'medium' ? '10MHz' : '50MHz'
+  const output = `CH_MODE_OUTPUT_${speed}`
+  const [mode, cnf, pull] = (() => {
+    switch (entry.mode) {
+      case 'AIN': return ['CH_MODE_INPUT', 'CH_CNF_INPUT_ANALOG', 'NOPULL']
+      case 'IN_FLOATING': return ['CH_MODE_INPUT', 'CH_CNF_INPUT_FLOAT', 'NOPULL']
+      case 'IPU': return ['CH_MODE_INPUT', 'CH_CNF_INPUT_PUPD', 'PULLUP']
+      case 'IPD': return ['CH_MODE_INPUT', 'CH_CNF_INPUT_PUPD', 'PULLDOWN']
+      case 'Out_PP': return [output, 'CH_CNF_OUTPUT_PP', 'NOPULL']
+      case 'Out_OD': return [output, 'CH_CNF_OUTPUT_OD', 'NOPULL']
+      case 'AF_OD': return [output, 'CH_CNF_OUTPUT_AFOD', 'NOPULL']
+      default: return [output, 'CH_CNF_OUTPUT_AFPP', 'NOPULL']
+    }
+  })()
+  return ext
+    ? `CH_PIN_DATA_EXT(${mode}, ${cnf}, ${pull}, ${entry.afio}, ${entry.channel ?? 0}, ${entry.inverted ? 1 : 0})`
+    : `CH_PIN_DATA(${mode}, ${cnf}, ${pull}, ${entry.afio})`
+}
+
+function renderPeripheralPins(chip: ChipDefinition, arrays: Map<string, PinMapEntry[]>): string {
+  const { meta } = chip
+  const lines: string[] = [
+    '/**',
+    ' * @file    PeripheralPins.c',
+    ` * @brief   Peripheral pin maps for ${meta.name} (${meta.package})`,
+    ' *          Generated by PinMuxLab for arduino_core_ch32.',
+    ' */',
+    '#include "Arduino.h"',
+    '#include "PeripheralPins.h"',
+    ''
+  ]
+
+  const skipped = Object.entries(chip.peripherals || {})
+    .filter(([, def]) => def.pinmapStyle !== 'per-pin')
+    .flatMap(([periphName, def]) => def.pinmaps
+      .map((_, mapIndex) => mapIndex)
+      .filter(mapIndex => !getAfioFlag(chip, periphName, mapIndex))
+      .map(mapIndex => `${periphName} pinmap ${mapIndex}`))
+  if (skipped.length > 0) {
+    lines.push(`/* Not listed (no single AFIO remap flag is known): ${skipped.join(', ')} */`, '')
+  }
+
+  for (const { name, module, ext } of PINMAP_ARRAYS) {
+    const entries = arrays.get(name)
+    if (!entries || entries.length === 0) continue
+    const width = Math.max(...entries.map(entry => toPinName(entry.pin).length + 1), 3)
+    lines.push(`#ifdef ${module}`, `const PinMap PinMap_${name}[] = {`)
+    for (const entry of entries) {
+      const pin = `${toPinName(entry.pin)},`.padEnd(width + 1)
+      lines.push(`  {${pin} ${entry.instance}, ${formatPinData(entry, !!ext)}}, /* ${entry.comment} */`)
+    }
+    lines.push(`  {${'NC,'.padEnd(width + 1)} NP, 0}`, '};', '#endif', '')
+  }
+
+  return lines.join('\n')
+}
+
+function renderVariantHeader(
+  chip: ChipDefinition,
+  arrays: Map<string, PinMapEntry[]>,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation>
+): string {
+  const { meta } = chip
+  const guard = `_VARIANT_${toCIdentifier(meta.name).toUpperCase()}_`
+
+  // 数字引脚编号：按端口和序号排列 (variant.cpp 中 digitalPin[] 需保持同一顺序)
+  const gpioPins = [...new Set(chip.package.pins.map(pin => pin.name))]
+    .filter(name => /^P[A-Z]\d+$/.test(name) && chip.pins[name]?.type === 'gpio')
+    .sort(compareNames)
+  const lines: string[] = [
+    '/**',
+    ' * @file    variant.h',
+    ` * @brief   Arduino variant for ${meta.name} (${meta.package})`,
+    ' *          Generated by PinMuxLab for arduino_core_ch32.',
+    ' */',
+    `#ifndef ${guard}`,
+    `#define ${guard}`,
+    '',
+    '/* Digital pins (digitalPin[] in variant.cpp must use the same order) */',
+    ...gpioPins.map((name, index) => define(name, index)),
+    '',
+    define('NUM_DIGITAL_PINS', gpioPins.length)
+  ]
+
+  // 模拟输入：按 ADC 通道号排列
+  const adcPins = [...(arrays.get('ADC') || [])].sort((a, b) => (a.channel ?? 0) - (b.channel ?? 0))
+  const analogPins = [...new Set(adcPins.map(entry => entry.pin))]
+  lines.push(define('NUM_ANALOG_INPUTS', analogPins.length), '')
+  if (analogPins.length > 0) {
+    lines.push('/* Analog inputs */', ...analogPins.map((pin, index) => define(`PIN_A${index}`, pin)), '')
+  }
+
+  // 默认接口：取当前配置中第一个 UART / SPI / I2C 的引脚
+  const defaults: string[] = []
+  const configuredEntry = (array: string, instance?: string) =>
+    (arrays.get(array) || []).find(entry => entry.configured && (!instance || entry.instance === instance))
+  const uartTx = configuredEntry('UART_TX')
+  if (uartTx) {
+    const uartRx = configuredEntry('UART_RX', uartTx.instance)
+    defaults.push(define('SERIAL_UART_INSTANCE', uartTx.instance.match(/(\d+)$/)?.[1] || 1))
+    defaults.push(define('PIN_SERIAL_TX', uartTx.pin))
+    if (uartRx) defaults.push(define('PIN_SERIAL_RX', uartRx.pin))
+  }
+  const spiSck = configuredEntry('SPI_SCLK')
+  if (spiSck) {
+    for (const [array, macro] of [['SPI_SSEL', 'PIN_SPI_SS'], ['SPI_MOSI', 'PIN_SPI_MOSI'], ['SPI_MISO', 'PIN_SPI_MISO']] as const) {
+      const entry = configuredEntry(array, spiSck.instance)
+      if (entry) defaults.push(define(macro, entry.pin))
+    }
+    defaults.push(define('PIN_SPI_SCK', spiSck.pin))
+  }
+  const i2cSda = configuredEntry('I2C_SDA')
+  if (i2cSda) {
+    const i2cScl = configuredEntry('I2C_SCL', i2cSda.instance)
+    defaults.push(define('PIN_WIRE_SDA', i2cSda.pin))
+    if (i2cScl) defaults.push(define('PIN_WIRE_SCL', i2cScl.pin))
+  }
+  if (defaults.length > 0) lines.push('/* Default interfaces (from the current configuration) */', ...defaults, '')
+
+  // 带网络标签的 GPIO 引脚
+  const labelled = gpioPins.filter(pin => annotations[pin]?.label && configurations[pin])
+  if (labelled.length > 0) {
+    const names = toUniqueCIdentifiers(labelled.map(pin => annotations[pin]!.label))
+    lines.push('/* Pin labels */', ...labelled.map((pin, index) => define(names[index]!, pin)), '')
+  }
+
+  lines.push(`#endif /* ${guard} */`, '')
+  return lines.join('\n')
+}
+
+function define(name: string, value: string | number): string {
+  return `#define ${name.padEnd(23)} ${value}`
+}
+
+// PA9 -> PA_9 (arduino_core_ch32 的 PinName)
+function toPinName(pin: string): string {
+  return pin.replace(/^P([A-Z])(\d+)$/, 'P$1_$2')
+}
@@ -0,0 +1,125 @@
+import type { ChipDefinition } from '@/types/chip'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 外设在某颗芯片上的可用情况
+ */
+export interface PeripheralAvailability {
+  type: string
+  /** 至少有一个候选引脚在封装上引出的信号 */
+  bondedSignals: string[]
+  /** 所有候选引脚都未引出的信号 */
+  missingSignals: string[]
+  /** 全部信号都能引出的 pinmap 数量 */
+  completePinmaps: number
+}
+
+export interface PeripheralComparison {
+  name: string
+  a: PeripheralAvailability | null
+  b: PeripheralAvailability | null
+  /** 两边都存在且引出的信号相同 */
+  same: boolean
+}
+
+/**
+ * 引脚在某个封装上的情况
+ */
+export interface PinPresence {
+  /** 物理编号 (电源等引脚可能有多个) */
+  numbers: number[]
+  functions: string[]
+}
+
+export interface PinComparison {
+  name: string
+  a: PinPresence | null
+  b: PinPresence | null
+  /**
+   * - same: 两个封装上都存在且功能相同
+   * - different: 两个封装上都存在但功能不同
+   * - only-a / only-b: 只在一个封装上存在
+   */
+  status: 'same' | 'different' | 'only-a' | 'only-b'
+  /** 只有 A 支持的功能 */
+  onlyInA: string[]
+  /** 只有 B 支持的功能 */
+  onlyInB: string[]
+}
+
+export interface ChipComparison {
+  peripherals: PeripheralComparison[]
+  pins: PinComparison[]
+}
+
+/**
+ * 比较两颗芯片 (或同一芯片的两个封装) 的外设和引脚
+ */
+export function compareChips(a: ChipDefinition, b: ChipDefinition): ChipComparison {
+  const peripheralNames = new Set([...Object.keys(a.peripherals || {}), ...Object.keys(b.peripherals || {})])
+  const peripherals = [...peripheralNames].sort(compareNames).map(name => {
+    const availA = getPeripheralAvailability(a, name)
+    const availB = getPeripheralAvailability(b, name)
+    return {
+      name,
+      a: availA,
+      b: availB,
+      same: !!availA && !!availB && sameSet(availA.bondedSignals, availB.bondedSignals)
+    }
+  })
+
+  const presenceA = getPinPresence(a)
+  const presenceB = getPinPresence(b)
+  const pinNames = new Set([...presenceA.keys(), ...presenceB.keys()])
+  const pins = [...pinNames].sort(compareNames).map((name): PinComparison => {
+    const pinA = presenceA.get(name) || null
+    const pinB = presenceB.get(name) || null
+    const onlyInA = pinA ? pinA.functions.filter(func => !pinB?.functions.includes(func)) : []
+    const onlyInB = pinB ? pinB.functions.filter(func => !pinA?.functions.includes(func)) : []
+    let status: PinComparison['status']
+    if (!pinB) status = 'only-a'
+    else if (!pinA) status = 'only-b'
+    else status = onlyInA.length === 0 && onlyInB.length === 0 ? 'same' : 'different'
+    return { name, a: pinA, b: pinB, status, onlyInA, onlyInB }
+  })
+
+  return { peripherals, pins }
+}
+
+function getPeripheralAvailability(chip: ChipDefinition, name: string): PeripheralAvailability | null {
+  const def = chip.peripherals?.[name]
+  if (!def) return null
+
+  const bonded = new Set(chip.package.pins.map(pin => pin.name))
+  const signals = Object.keys(def.signals || {})
+  const bondedSignals = signals.filter(signal => def.signals[signal]!.some(pin => bonded.has(pin)))
+  const completePinmaps = (def.pinmaps || []).filter(map => {
+    const mapped = Object.values(map || {})
+    return mapped.length > 0 && mapped.every(pin => bonded.has(pin))
+  }).length
+
+  return {
+    type: def.type,
+    bondedSignals,
+    missingSignals: signals.filter(signal => !bondedSignals.includes(signal)),
+    completePinmaps
+  }
+}
+
+// 只统计封装上实际引出的引脚 (chip.pins 中还包含系列 pinmap 引用但未引出的引脚)
+function getPinPresence(chip: ChipDefinition): Map<string, PinPresence> {
+  const result = new Map<string, PinPresence>()
+  for (const pin of chip.package.pins) {
+    const presence = result.get(pin.name)
+    if (presence) {
+      presence.numbers.push(pin.number)
+    } else {
+      result.set(pin.name, { numbers: [pin.number], functions: chip.pins[pin.name]?.functions || [] })
+    }
+  }
+  return result
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(item => b.includes(item))
+}
@@ -0,0 +1,149 @@
+import type { ChipMeta, PackageInfo, PhysicalPin, RawChipData, RawPeripheralCategory } from '@/types/chip'
+import { GPIO_REGEX } from '@/config/pinConfig'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 编辑中的外设实例
+ * signals 单独保存信号行的顺序，新加的空行在填入引脚之前也能保留
+ */
+export interface EditorInstance {
+  name: string
+  signals: string[]
+  pinmaps: Array<Record<string, string>>
+  /** 实例上 pinmaps 之外的字段，保存时原样写回 */
+  extra: Record<string, unknown>
+}
+
+/**
+ * 编辑中的外设分类
+ */
+export interface EditorCategory {
+  key: string
+  description: string
+  instances: EditorInstance[]
+}
+
+/**
+ * 芯片编辑器的状态：外设由对象改为有序数组，分类名和实例名可以直接修改
+ */
+export interface EditorChip {
+  meta: ChipMeta
+  package: PackageInfo
+  categories: EditorCategory[]
+}
+
+/**
+ * 新芯片的初始数据
+ */
+export function createEmptyChip(): EditorChip {
+  return {
+    meta: { vendor: 'WCH', family: '', name: '', core: 'RISC-V', package: '', flash: '', sram: '', datasheet: '' },
+    package: { type: '', pinCount: 0, pins: [] },
+    categories: []
+  }
+}
+
+/**
+ * 原始芯片数据 (嵌套格式) -> 编辑器状态
+ * @throws 数据为完整 ChipDefinition 格式 (如 STM32 导入结果) 时抛出错误，这类文件没有分类层级
+ */
+export function toEditorChip(raw: unknown): EditorChip {
+  const data = JSON.parse(JSON.stringify(raw)) as RawChipData
+  if (!data?.meta || !data.package || !Array.isArray(data.package.pins)) {
+    throw new Error('Invalid chip data: "meta" and "package.pins" are required')
+  }
+  if ((data as unknown as Record<string, unknown>).pins) {
+    throw new Error('This chip uses the full ChipDefinition format and cannot be edited here')
+  }
+
+  const categories: EditorCategory[] = Object.entries(data.peripherals || {}).map(([key, category]) => ({
+    key,
+    description: typeof category.Description === 'string' ? category.Description : '',
+    instances: Object.entries(category)
+      .filter(([name]) => name !== 'Description')
+      .map(([name, value]) => {
+        // 实例可以直接是 pinmaps 数组 (与 inferChipData 的兼容处理一致)
+        const { pinmaps = [], ...extra } = (Array.isArray(value) ? { pinmaps: value } : value || {}) as {
+          pinmaps?: Array<Record<string, string>>
+        }
+        return { name, signals: getPinmapSignals(pinmaps), pinmaps, extra }
+      })
+  }))
+
+  return { meta: data.meta, package: data.package, categories }
+}
+
+/**
+ * 编辑器状态 -> 原始芯片数据 (嵌套格式，与内置芯片文件一致)
+ * pinmaps 只保留已填写引脚的信号
+ */
+export function fromEditorChip(chip: EditorChip): RawChipData {
+  const peripherals: Record<string, RawPeripheralCategory> = {}
+  for (const category of chip.categories) {
+    const data: RawPeripheralCategory = { Description: category.description }
+    for (const instance of category.instances) {
+      const pinmaps = instance.pinmaps.map(map => {
+        const entries = instance.signals.filter(signal => map[signal]).map(signal => [signal, map[signal]!.trim()])
+        return Object.fromEntries(entries) as Record<string, string>
+      })
+      data[instance.name] = { ...instance.extra, pinmaps }
+    }
+    peripherals[category.key] = data
+  }
+
+  // 可选的 meta 字段留空时不写入
+  const meta = Object.fromEntries(
+    Object.entries(chip.meta).filter(([key, value]) => value !== '' || !['flash', 'sram'].includes(key))
+  ) as unknown as ChipMeta
+
+  return {
+    meta,
+    package: { ...chip.package, pins: chip.package.pins.map(pin => ({ ...pin })) },
+    peripherals
+  }
+}
+
+/**
+ * 按表格顺序重新编号：散热焊盘 (编号 0) 保持 0，其余从 1 开始连续编号
+ */
+export function renumberPins(pins: PhysicalPin[]): void {
+  let number = 1
+  for (const pin of pins) {
+    if (pin.number !== 0) pin.number = number++
+  }
+}
+
+/**
+ * pinmaps 中出现过的所有信号，按首次出现的顺序
+ */
+export function getPinmapSignals(pinmaps: Array<Record<string, string>>): string[] {
+  const signals: string[] = []
+  for (const map of pinmaps) {
+    for (const signal of Object.keys(map || {})) {
+      if (!signals.includes(signal)) signals.push(signal)
+    }
+  }
+  return signals
+}
+
+/**
+ * 修改信号名，同时更新所有 pinmap 中的键
+ * 新名称为空或与其他信号重名时不修改
+ * @returns 是否已修改
+ */
+export function renameSignal(instance: EditorInstance, index: number, name: string): boolean {
+  const previous = instance.signals[index]
+  if (previous === undefined || !name || instance.signals.includes(name)) return false
+  instance.signals[index] = name
+  instance.pinmaps = instance.pinmaps.map(map =>
+    Object.fromEntries(Object.entries(map).map(([signal, pin]) => [signal === previous ? name : signal, pin])))
+  return true
+}
+
+/**
+ * pinmap 表格中引脚输入框的候选项：封装上的 GPIO 引脚，按自然顺序
+ */
+export function getPinSuggestions(pins: PhysicalPin[]): string[] {
+  return [...new Set(pins.map(pin => pin.name).filter(name => GPIO_REGEX.test(name)))]
+    .sort(compareNames)
+}
@@ -0,0 +1,293 @@
+import type { ChipDefinition, PeripheralDefinition } from '@/types/chip'
+import { solveAllocation, type AllocationSolution, type SignalPlacement } from '@/utils/allocationSolver'
+import { getSignalFunctionName } from '@/utils/pinmapUtils'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 一条选型需求
+ * - peripheral: 需要 count 个某类型的外设 (如 2× USART)
+ * - adc-channels: 需要 count 个可同时使用的 ADC 通道
+ * - gpio: 分配完外设后至少还剩 count 个空闲 GPIO
+ */
+export type FinderRequirement =
+  | { kind: 'peripheral'; type: string; count: number; variant?: 'FS' | 'HS'; label: string }
+  | { kind: 'adc-channels'; count: number; label: string }
+  | { kind: 'gpio'; count: number; label: string }
+
+export interface FinderParseResult {
+  requirements: FinderRequirement[]
+  errors: string[]
+}
+
+/**
+ * 一颗芯片的评估结果
+ */
+export interface ChipMatch {
+  chip: ChipDefinition
+  /** 所有需求能否同时满足 */
+  satisfied: boolean
+  /** 不满足时的原因 */
+  reason?: string
+  /** 满足时的示例分配 (包含 ADC 通道) */
+  solution: AllocationSolution | null
+  /** 示例分配之后剩余的空闲 GPIO 数量 */
+  freeGpio: number
+}
+
+// 关键字 -> 外设类型 (与 chipInferencer 推断的 type 一致)
+const PERIPHERAL_KEYWORDS: Record<string, string> = {
+  USART: 'uart',
+  UART: 'uart',
+  SPI: 'spi',
+  I2C: 'i2c',
+  IIC: 'i2c',
+  I2S: 'i2s',
+  CAN: 'can',
+  USB: 'usb',
+  DAC: 'dac',
+  ETH: 'eth',
+  ETHERNET: 'eth',
+  TIM: 'timer',
+  TIMER: 'timer',
+  OPA: 'opa'
+}
+
+// 每类外设"可用"所需的最少信号；未列出的类型需要全部信号
+const CORE_SIGNALS: Record<string, string[]> = {
+  uart: ['TX', 'RX', 'TXD', 'RXD'],
+  spi: ['SCK', 'MISO', 'MOSI'],
+  i2c: ['SCL', 'SDA'],
+  i2s: ['WS', 'CK', 'SD'],
+  can: ['TX', 'RX'],
+  usb: ['DM', 'DP'],
+  dac: ['OUT'],
+  timer: ['CH1']
+}
+
+// 外设实例组合的上限，防止多实例需求 (如 3× USART) 组合爆炸
+const MAX_COMBINATIONS = 64
+
+/**
+ * 解析文本形式的选型需求
+ * 支持格式 (逗号/分号/换行分隔)：
+ * - `2× USART`, `2x SPI`, `CAN`, `TIM x3`  外设数量
+ * - `USB FS`, `USB HS`                     USB 速度等级
+ * - `6 ADC channels`                       ADC 通道数
+ * - `≥ 20 free GPIO`                       剩余空闲 GPIO 数
+ */
+export function parseFinderRequirements(text: string): FinderParseResult {
+  const requirements: FinderRequirement[] = []
+  const errors: string[] = []
+
+  const items = text.split(/[,;，；\n]+/).map(item => item.trim()).filter(Boolean)
+
+  for (const item of items) {
+    const normalized = item
+      .replace(/[×＊*]/g, ' x ')
+      .replace(/≥|>=|\bat least\b/gi, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+    const match = normalized.match(/^(?:(\d+)\s*x?\s+)?(.+?)(?:\s+x\s*(\d+))?$/i)
+    const keywords = (match?.[2] || '')
+      .toUpperCase()
+      .split(' ')
+      .filter(word => !['FREE', 'CHANNEL', 'CHANNELS', 'CH', 'PINS', 'PIN'].includes(word))
+    const count = parseInt(match?.[1] || match?.[3] || '1', 10)
+    const [keyword = '', qualifier = ''] = keywords
+    // "USBFS" / "USBHS" 写法
+    const usbMatch = keyword.match(/^USB(FS|HS)$/)
+
+    if (count < 1) {
+      errors.push(`"${item}": count must be at least 1`)
+    } else if (keyword === 'ADC') {
+      addRequirement(requirements, { kind: 'adc-channels', count, label: '' })
+    } else if (keyword === 'GPIO' || keyword === 'IO') {
+      addRequirement(requirements, { kind: 'gpio', count, label: '' })
+    } else if (usbMatch || PERIPHERAL_KEYWORDS[keyword]) {
+      const type = usbMatch ? 'usb' : PERIPHERAL_KEYWORDS[keyword]!
+      const variant = usbMatch?.[1] || (type === 'usb' && /^(FS|HS)$/.test(qualifier) ? qualifier : undefined)
+      addRequirement(requirements, {
+        kind: 'peripheral',
+        type,
+        count,
+        variant: variant as 'FS' | 'HS' | undefined,
+        label: type === 'usb' ? `USB${variant ? ` ${variant}` : ''}` : keyword
+      })
+    } else {
+      errors.push(`Unknown requirement "${item}"`)
+    }
+  }
+
+  requirements.forEach(req => (req.label = describeRequirement(req)))
+  return { requirements, errors }
+}
+
+// 同类需求合并：外设数量相加，ADC 通道和 GPIO 取最大值
+function addRequirement(requirements: FinderRequirement[], req: FinderRequirement) {
+  const existing = requirements.find(other =>
+    other.kind === req.kind &&
+    (other.kind !== 'peripheral' || req.kind !== 'peripheral' || (other.type === req.type && other.variant === req.variant))
+  )
+  if (!existing) {
+    requirements.push(req)
+  } else if (existing.kind === 'peripheral') {
+    existing.count += req.count
+  } else {
+    existing.count = Math.max(existing.count, req.count)
+  }
+}
+
+function describeRequirement(req: FinderRequirement): string {
+  if (req.kind === 'adc-channels') return `${req.count} ADC channel(s)`
+  if (req.kind === 'gpio') return `${req.count} free GPIO`
+  return req.count > 1 ? `${req.count}× ${req.label}` : req.label
+}
+
+/**
+ * 在一组芯片中查找能同时满足所有需求的型号
+ * 满足的芯片排在前面，按封装引脚数从小到大排序
+ */
+export function findChips(chips: ChipDefinition[], requirements: FinderRequirement[]): ChipMatch[] {
+  return chips
+    .map(chip => evaluateChip(chip, requirements))
+    .sort((a, b) =>
+      Number(b.satisfied) - Number(a.satisfied) ||
+      a.chip.package.pinCount - b.chip.package.pinCount ||
+      compareNames(a.chip.meta.name, b.chip.meta.name)
+    )
+}
+
+/**
+ * 评估一颗芯片：所有外设需求必须在同一封装上以互不冲突的 pinmap 同时放置，
+ * 然后在剩余引脚中放置 ADC 通道并统计空闲 GPIO
+ */
+export function evaluateChip(chip: ChipDefinition, requirements: FinderRequirement[]): ChipMatch {
+  const unsatisfied = (reason: string): ChipMatch => ({ chip, satisfied: false, reason, solution: null, freeGpio: 0 })
+  const peripherals = chip.peripherals || {}
+
+  // 1. 每条外设需求的候选实例
+  const choices: string[][][] = []
+  for (const req of requirements) {
+    if (req.kind !== 'peripheral') continue
+    const instances = Object.keys(peripherals)
+      .filter(name => peripherals[name]!.type === req.type && matchesVariant(name, req.variant))
+      .sort(compareNames)
+    if (instances.length < req.count) {
+      const name = req.label.replace(/^\d+× /, '')
+      return unsatisfied(instances.length === 0
+        ? `No ${name}`
+        : `Only ${instances.length} ${name} (needs ${req.count})`)
+    }
+    choices.push(combinations(instances, req.count))
+  }
+
+  const adcRequirement = requirements.find(req => req.kind === 'adc-channels')
+  const gpioRequirement = requirements.find(req => req.kind === 'gpio')
+  let reason = 'Peripherals cannot be placed together without pin conflicts'
+
+  // 2. 逐个尝试实例组合，求解无冲突的 pinmap 组合
+  for (const combo of cartesian(choices).slice(0, MAX_COMBINATIONS)) {
+    const requests = combo.flat().map(name => ({
+      peripheral: name,
+      signals: getCoreSignals(peripherals[name]!)
+    }))
+    const result = solveAllocation(chip, requests, {}, { maxSolutions: 3, maxSteps: 20000 })
+    if (!result.conflictFree) continue
+
+    for (const solution of result.solutions) {
+      const used = new Set(solution.placements.map(p => p.pin))
+
+      // 3. ADC 通道使用剩余引脚
+      const adcPlacements = adcRequirement ? pickAdcChannels(chip, adcRequirement.count, used) : []
+      if (adcRequirement && adcPlacements.length < adcRequirement.count) {
+        reason = `Only ${adcPlacements.length} ADC channel(s) left free (needs ${adcRequirement.count})`
+        continue
+      }
+      adcPlacements.forEach(p => used.add(p.pin))
+
+      // 4. 剩余空闲 GPIO
+      const freeGpio = countFreeGpio(chip, used)
+      if (gpioRequirement && freeGpio < gpioRequirement.count) {
+        reason = `Only ${freeGpio} GPIO left free (needs ${gpioRequirement.count})`
+        continue
+      }
+
+      return {
+        chip,
+        satisfied: true,
+        solution: { ...solution, placements: [...solution.placements, ...adcPlacements] },
+        freeGpio
+      }
+    }
+  }
+
+  return unsatisfied(reason)
+}
+
+// USB FS/HS 按外设名称区分 (USBHS 为高速，其余 USB/USBFS/OTG 为全速)
+function matchesVariant(name: string, variant?: 'FS' | 'HS'): boolean {
+  if (!variant) return true
+  return variant === 'HS' ? /HS/i.test(name) : !/HS/i.test(name)
+}
+
+function getCoreSignals(def: PeripheralDefinition): string[] {
+  const available = Object.keys(def.signals || {})
+  const core = (CORE_SIGNALS[def.type] || []).filter(signal => available.includes(signal))
+  return core.length > 0 ? core : available
+}
+
+// 在所有 ADC 外设的 INx 信号中挑选未被占用的引脚 (多个 ADC 共用通道引脚时按引脚去重)
+function pickAdcChannels(chip: ChipDefinition, count: number, used: Set<string>): SignalPlacement[] {
+  const bonded = new Set(chip.package.pins.map(pin => pin.name))
+  const placements: SignalPlacement[] = []
+  const taken = new Set(used)
+
+  const adcs = Object.entries(chip.peripherals || {})
+    .filter(([, def]) => def.type === 'adc')
+    .sort(([a], [b]) => compareNames(a, b))
+
+  for (const [periphName, def] of adcs) {
+    const channels = Object.keys(def.signals || {}).filter(signal => /^IN\d+$/.test(signal)).sort(compareNames)
+    for (const signal of channels) {
+      if (placements.length >= count) return placements
+      for (let mapIndex = 0; mapIndex < (def.pinmaps || []).length; mapIndex++) {
+        const pin = def.pinmaps[mapIndex]?.[signal]
+        if (!pin || !bonded.has(pin) || taken.has(pin)) continue
+        const func = getSignalFunctionName(chip, periphName, signal, mapIndex, pin)
+        if (!func) continue
+        placements.push({ peripheral: periphName, signal, mapIndex, pin, function: func, conflict: false })
+        taken.add(pin)
+        break
+      }
+    }
+  }
+  return placements
+}
+
+function countFreeGpio(chip: ChipDefinition, used: Set<string>): number {
+  const free = new Set<string>()
+  for (const pin of chip.package.pins) {
+    if (chip.pins[pin.name]?.type === 'gpio' && !used.has(pin.name)) free.add(pin.name)
+  }
+  return free.size
+}
+
+// 从 items 中选 k 个的所有组合 (保持顺序，编号小的实例优先)
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]]
+  const result: T[][] = []
+  items.forEach((item, index) => {
+    if (result.length >= MAX_COMBINATIONS) return
+    for (const rest of combinations(items.slice(index + 1), k - 1)) {
+      result.push([item, ...rest])
+    }
+  })
+  return result
+}
+
+function cartesian<T>(lists: T[][]): T[][] {
+  return lists.reduce<T[][]>(
+    (acc, list) => acc.flatMap(prefix => list.map(item => [...prefix, item])).slice(0, MAX_COMBINATIONS),
+    [[]]
+  )
+}
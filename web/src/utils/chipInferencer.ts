@@ -253,7 +253,7 @@ function getPinType(name: string): string {
 }
 
 // Helper to map Category to Type (simple heuristic)
-function mapCategoryToType(category: string): string {
+export function mapCategoryToType(category: string): string {
   const cat = category.toUpperCase()
   if (cat.includes('UART') || cat.includes('USART')) return 'uart'
   if (cat.includes('SPI')) return 'spi'
@@ -0,0 +1,215 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation, PinConfig } from '@/types/pinmux'
+import { findFunctionContext, getSignalFunctionName } from '@/utils/pinmapUtils'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 迁移报告中的一项
+ * - kept: 在目标芯片上使用同一引脚和同一功能
+ * - moved: 换到了目标芯片上的其他引脚 (或同一引脚的其他 pinmap)
+ * - unplaced: 无法在目标芯片上放置
+ */
+export interface MigrationItem {
+  status: 'kept' | 'moved' | 'unplaced'
+  sourcePin: string
+  sourceFunction: string
+  targetPin?: string
+  targetFunction?: string
+  /** unplaced 的原因 */
+  reason?: string
+}
+
+export interface MigrationResult {
+  /** 目标芯片上的引脚配置 */
+  configurations: Record<string, PinConfig>
+  /** 跟随信号迁移后的引脚标签 */
+  annotations: Record<string, PinAnnotation>
+  items: MigrationItem[]
+  /** 引脚在目标芯片上不存在、因而丢失的标签 */
+  droppedAnnotations: Array<{ pin: string; annotation: PinAnnotation }>
+}
+
+interface SignalSource {
+  pin: string
+  signal: string
+  config: PinConfig
+}
+
+/**
+ * 将一份配置迁移到另一颗芯片 (或同系列的其他封装)
+ * - 普通 GPIO 等非外设功能：目标芯片上同名引脚支持该功能则保留，否则无法放置
+ * - 外设信号：同一外设的信号必须使用同一组 pinmap；优先选择能保持原引脚不变的 pinmap，
+ *   其次选择能放下最多信号的 pinmap
+ * - 目标外设为 per-pin (按引脚选择 AF) 时每个信号独立放置：优先保持原引脚，否则使用第一个空闲的引脚
+ * 电气设置和标签跟随信号迁移
+ */
+export function migrateConfiguration(
+  source: ChipDefinition,
+  target: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+): MigrationResult {
+  const result: MigrationResult = { configurations: {}, annotations: {}, items: [], droppedAnnotations: [] }
+  const targetPackagePins = new Set(target.package.pins.map(pin => pin.name))
+  const targetPeripherals = target.peripherals || {}
+  // 目标引脚 -> 源引脚 (用于迁移标签)
+  const origins = new Map<string, string>()
+
+  // perPin: 目标外设按引脚选择 AF，功能名中的 pinmap 后缀只是选项序号，同一引脚即视为 kept
+  const place = (
+    from: SignalSource | { pin: string; config: PinConfig },
+    targetPin: string,
+    targetFunction: string,
+    perPin = false
+  ) => {
+    result.configurations[targetPin] = { ...from.config, function: targetFunction }
+    origins.set(targetPin, from.pin)
+    result.items.push({
+      // 同一引脚但换了 pinmap (功能名不同) 时也算 moved
+      status: targetPin === from.pin && (perPin || targetFunction === from.config.function) ? 'kept' : 'moved',
+      sourcePin: from.pin,
+      sourceFunction: from.config.function,
+      targetPin,
+      targetFunction
+    })
+  }
+  const unplace = (from: { pin: string; config: PinConfig }, reason: string) => {
+    result.items.push({ status: 'unplaced', sourcePin: from.pin, sourceFunction: from.config.function, reason })
+  }
+  const isFree = (pin: string) => targetPackagePins.has(pin) && !result.configurations[pin]
+
+  // 1. 按外设分组；非外设功能直接按引脚名匹配
+  const byPeripheral = new Map<string, { mapIndex: number; signals: SignalSource[] }>()
+  for (const pin of sortPins(Object.keys(configurations))) {
+    const config = configurations[pin]!
+    const context = findFunctionContext(source, config.function, pin)
+    if (!context) {
+      if (targetPackagePins.has(pin) && target.pins[pin]?.functions.includes(config.function)) {
+        place({ pin, config }, pin, config.function)
+      } else {
+        unplace({ pin, config }, targetPackagePins.has(pin)
+          ? `${pin} does not support ${config.function} on ${target.meta.name}`
+          : `${pin} does not exist on ${target.meta.name}`)
+      }
+      continue
+    }
+    const group = byPeripheral.get(context.periphName) || { mapIndex: context.mapIndex, signals: [] }
+    group.signals.push({ pin, signal: context.signalName, config })
+    byPeripheral.set(context.periphName, group)
+  }
+
+  // 2. 评估每个外设在目标芯片上的各个 pinmap
+  const evaluate = (periphName: string, mapIndex: number, signals: SignalSource[]) => {
+    const placements: Array<{ source: SignalSource; pin: string; func: string }> = []
+    let samePins = 0
+    for (const source of signals) {
+      const pin = targetPeripherals[periphName]?.pinmaps[mapIndex]?.[source.signal]
+      const func = pin && isFree(pin) ? getSignalFunctionName(target, periphName, source.signal, mapIndex, pin) : undefined
+      if (!pin || !func) continue
+      if (placements.some(p => p.pin === pin)) continue // 同一 pinmap 中两个信号共用引脚
+      placements.push({ source, pin, func })
+      if (pin === source.pin) samePins++
+    }
+    return { mapIndex, placements, samePins }
+  }
+
+  // per-pin 外设中某个信号的所有引脚选项
+  const perPinOptions = (periphName: string, signal: string) =>
+    (targetPeripherals[periphName]?.pinmaps || []).flatMap((map, mapIndex) => {
+      const pin = map?.[signal]
+      const func = pin && isFree(pin) ? getSignalFunctionName(target, periphName, signal, mapIndex, pin) : undefined
+      return pin && func ? [{ pin, func }] : []
+    })
+
+  // 能完整保持原引脚的外设 (per-pin 外设为能保持原引脚的信号) 先放置，避免其引脚被其他外设的替代方案占用
+  const pending: string[] = []
+  const pendingPerPin: Array<{ periphName: string; source: SignalSource }> = []
+  for (const [periphName, group] of byPeripheral) {
+    if (!targetPeripherals[periphName]) {
+      group.signals.forEach(source => unplace(source, `${periphName} does not exist on ${target.meta.name}`))
+      continue
+    }
+    if (targetPeripherals[periphName].pinmapStyle === 'per-pin') {
+      for (const source of group.signals) {
+        const same = perPinOptions(periphName, source.signal).find(option => option.pin === source.pin)
+        if (same) {
+          place(source, same.pin, same.func, true)
+        } else {
+          pendingPerPin.push({ periphName, source })
+        }
+      }
+      continue
+    }
+    const candidate = evaluate(periphName, group.mapIndex, group.signals)
+    if (candidate.samePins === group.signals.length) {
+      candidate.placements.forEach(p => place(p.source, p.pin, p.func))
+    } else {
+      pending.push(periphName)
+    }
+  }
+
+  for (const periphName of pending) {
+    const group = byPeripheral.get(periphName)!
+    const pinmaps = targetPeripherals[periphName]!.pinmaps || []
+    let best = evaluate(periphName, group.mapIndex, group.signals)
+    pinmaps.forEach((_, mapIndex) => {
+      const candidate = evaluate(periphName, mapIndex, group.signals)
+      if (
+        candidate.placements.length > best.placements.length ||
+        (candidate.placements.length === best.placements.length && candidate.samePins > best.samePins)
+      ) {
+        best = candidate
+      }
+    })
+
+    best.placements.forEach(p => place(p.source, p.pin, p.func))
+    const placed = new Set(best.placements.map(p => p.source))
+    group.signals
+      .filter(source => !placed.has(source))
+      .forEach(source => {
+        const pin = pinmaps[best.mapIndex]?.[source.signal]
+        unplace(source, !pin
+          ? `${periphName} ${source.signal} is not available on ${target.meta.name}`
+          : targetPackagePins.has(pin)
+            ? `${periphName} ${source.signal} needs ${pin}, which is already in use`
+            : `${periphName} ${source.signal} needs ${pin}, which is not bonded out on ${target.meta.package}`)
+      })
+  }
+
+  for (const { periphName, source } of pendingPerPin) {
+    const option = perPinOptions(periphName, source.signal)[0]
+    if (option) {
+      place(source, option.pin, option.func, true)
+    } else {
+      const available = targetPeripherals[periphName]!.signals[source.signal]?.length
+      unplace(source, available
+        ? `${periphName} ${source.signal} has no free pin on ${target.meta.package}`
+        : `${periphName} ${source.signal} is not available on ${target.meta.name}`)
+    }
+  }
+
+  // 3. 标签：已配置引脚的标签跟随信号，其余标签按引脚名保留
+  const consumed = new Set<string>()
+  for (const [targetPin, sourcePin] of origins) {
+    const annotation = annotations[sourcePin]
+    if (annotation) {
+      result.annotations[targetPin] = annotation
+      consumed.add(sourcePin)
+    }
+  }
+  for (const [pin, annotation] of Object.entries(annotations)) {
+    if (consumed.has(pin)) continue
+    if (!configurations[pin] && targetPackagePins.has(pin) && !result.annotations[pin]) {
+      result.annotations[pin] = annotation
+    } else {
+      result.droppedAnnotations.push({ pin, annotation })
+    }
+  }
+
+  result.items.sort((a, b) => compareNames(a.sourcePin, b.sourcePin))
+  return result
+}
+
+function sortPins(pins: string[]): string[] {
+  return [...pins].sort(compareNames)
+}
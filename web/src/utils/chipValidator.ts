@@ -0,0 +1,215 @@
+import type { ChipDefinition } from '@/types/chip'
+import { PIN_CATEGORIES, GPIO_REGEX } from '@/config/pinConfig'
+import { inferChipData } from '@/utils/chipInferencer'
+import { formatGridRow, getGridPosition, hasGridPosition } from '@/utils/packageLayout'
+
+/**
+ * 芯片数据校验问题
+ * - error: 数据明显错误，会导致引脚或功能显示不正确
+ * - warning: 数据不完整或可疑，需要对照手册确认
+ * - info: 通常是正常情况，如系列共用的 pinmap 引用了小封装上未引出的引脚
+ */
+export interface ChipIssue {
+  severity: 'error' | 'warning' | 'info'
+  /** 问题类别，便于脚本统计和过滤 */
+  code:
+    | 'invalid-structure'
+    | 'missing-meta'
+    | 'duplicate-pin-name'
+    | 'duplicate-pin-number'
+    | 'pin-count-mismatch'
+    | 'invalid-grid-position'
+    | 'invalid-package-layout'
+    | 'unknown-pinmap-pin'
+    | 'shared-pinmap-pin'
+    | 'empty-pinmap'
+  message: string
+}
+
+// 必填的 meta 字段；flash / sram 在类型上可选，但缺失时界面上会少显示信息
+const REQUIRED_META = ['vendor', 'family', 'name', 'core', 'package'] as const
+const RECOMMENDED_META = ['flash', 'sram', 'datasheet'] as const
+
+// 电源、地和 NC 引脚在封装上可以重复出现
+const REPEATABLE_PIN_NAMES = new Set([...PIN_CATEGORIES.power, ...PIN_CATEGORIES.gnd, ...PIN_CATEGORIES.nc])
+
+/**
+ * 校验芯片 JSON 数据 (原始格式，与 inferChipData 的输入相同)
+ * 检查 meta 字段、封装引脚的重复与数量，以及 pinmaps 中的引脚引用
+ */
+export function validateChipData(raw: unknown): ChipIssue[] {
+  const issues: ChipIssue[] = []
+
+  let chip: ChipDefinition
+  try {
+    chip = inferChipData(raw)
+  } catch (e) {
+    return [{ severity: 'error', code: 'invalid-structure', message: e instanceof Error ? e.message : String(e) }]
+  }
+
+  // 1. meta
+  const meta = chip.meta as unknown as Record<string, unknown>
+  for (const key of REQUIRED_META) {
+    if (typeof meta[key] !== 'string' || !meta[key]) {
+      issues.push({ severity: 'error', code: 'missing-meta', message: `meta.${key} is missing` })
+    }
+  }
+  for (const key of RECOMMENDED_META) {
+    if (typeof meta[key] !== 'string' || !meta[key]) {
+      issues.push({ severity: 'warning', code: 'missing-meta', message: `meta.${key} is missing` })
+    }
+  }
+
+  // 2. 封装引脚
+  const packagePins = chip.package.pins
+  const byName = new Map<string, number[]>()
+  const byNumber = new Map<number, string[]>()
+  for (const pin of packagePins) {
+    byName.set(pin.name, [...(byName.get(pin.name) || []), pin.number])
+    byNumber.set(pin.number, [...(byNumber.get(pin.number) || []), pin.name])
+  }
+  for (const [name, numbers] of byName) {
+    if (numbers.length > 1 && !REPEATABLE_PIN_NAMES.has(name)) {
+      issues.push({
+        severity: 'error',
+        code: 'duplicate-pin-name',
+        message: `Pin name ${name} is used by pins ${numbers.join(', ')}`
+      })
+    }
+  }
+  for (const [number, names] of byNumber) {
+    if (names.length > 1) {
+      issues.push({
+        severity: 'error',
+        code: 'duplicate-pin-number',
+        message: `Pin number ${number} is used by ${names.join(', ')}`
+      })
+    }
+  }
+  // 编号 0 为底部散热焊盘 (与 packageLayout 约定一致)，不计入 pinCount
+  const numberedPins = packagePins.filter(pin => pin.number !== 0)
+  if (chip.package.pinCount !== numberedPins.length) {
+    issues.push({
+      severity: 'error',
+      code: 'pin-count-mismatch',
+      message: `package.pinCount is ${chip.package.pinCount} but package.pins has ${numberedPins.length} numbered pins`
+    })
+  }
+
+  // 四边封装的每边引脚数和散热焊盘
+  const { sides, exposedPad } = chip.package
+  if (sides) {
+    const sideTotal = sides.left + sides.bottom + sides.right + sides.top
+    if (sideTotal !== numberedPins.length) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid-package-layout',
+        message: `package.sides adds up to ${sideTotal} pins but package.pins has ${numberedPins.length} numbered pins`
+      })
+    }
+  }
+  if (exposedPad) {
+    if (!packagePins.some(pin => pin.number === 0)) {
+      issues.push({
+        severity: 'warning',
+        code: 'invalid-package-layout',
+        message: 'package.exposedPad is set but there is no pin 0 for the pad'
+      })
+    }
+    if (![exposedPad.width, exposedPad.height].every(ratio => ratio > 0 && ratio <= 1)) {
+      issues.push({
+        severity: 'warning',
+        code: 'invalid-package-layout',
+        message: 'package.exposedPad width and height must be between 0 and 1 (relative to the body)'
+      })
+    }
+  }
+
+  // 网格封装 (BGA/WLCSP)：位置格式、重复和缺失
+  const gridPins = numberedPins.filter(hasGridPosition)
+  if (gridPins.length > 0) {
+    const byPosition = new Map<string, string[]>()
+    for (const pin of gridPins) {
+      const position = getGridPosition(pin)
+      if (!position) {
+        issues.push({
+          severity: 'error',
+          code: 'invalid-grid-position',
+          message: `Pin ${pin.number} (${pin.name}) has an invalid grid position ${pin.ball ?? `row ${pin.row}, col ${pin.col}`}`
+        })
+        continue
+      }
+      const key = `${formatGridRow(position.row)}${position.col}`
+      byPosition.set(key, [...(byPosition.get(key) || []), pin.name])
+    }
+    for (const [key, names] of byPosition) {
+      if (names.length > 1) {
+        issues.push({
+          severity: 'error',
+          code: 'invalid-grid-position',
+          message: `Grid position ${key} is used by ${names.join(', ')}`
+        })
+      }
+    }
+    const missing = numberedPins.filter(pin => !hasGridPosition(pin))
+    if (missing.length > 0) {
+      issues.push({
+        severity: 'warning',
+        code: 'invalid-grid-position',
+        message: `${missing.length} pin(s) have no grid position (e.g. ${missing[0]!.name}); balls are laid out in pin order instead`
+      })
+    }
+  }
+
+  // 3. pinmaps
+  for (const [periphName, def] of Object.entries(chip.peripherals || {})) {
+    const pinmaps = def.pinmaps || []
+    if (pinmaps.length === 0 || pinmaps.every(map => Object.keys(map || {}).length === 0)) {
+      issues.push({ severity: 'warning', code: 'empty-pinmap', message: `${periphName} has no pin mappings` })
+      continue
+    }
+
+    pinmaps.forEach((map, mapIndex) => {
+      const where = `${periphName} pinmap ${mapIndex}`
+      if (!map || Object.keys(map).length === 0) {
+        issues.push({ severity: 'warning', code: 'empty-pinmap', message: `${where} is empty` })
+        return
+      }
+
+      const signalsByPin = new Map<string, string[]>()
+      for (const [signal, pinName] of Object.entries(map)) {
+        if (!byName.has(pinName)) {
+          // GPIO 名称说明只是该封装未引出；其他名称多半是笔误
+          const looksLikeGpio = GPIO_REGEX.test(pinName)
+          issues.push({
+            severity: looksLikeGpio ? 'info' : 'error',
+            code: 'unknown-pinmap-pin',
+            message: looksLikeGpio
+              ? `${where}: ${signal} maps to ${pinName}, which is not bonded out on this package`
+              : `${where}: ${signal} maps to ${pinName}, which is not in package.pins`
+          })
+        }
+        signalsByPin.set(pinName, [...(signalsByPin.get(pinName) || []), signal])
+      }
+      for (const [pinName, signals] of signalsByPin) {
+        if (signals.length > 1 && !isSharedByDesign(def.type, signals)) {
+          issues.push({
+            severity: 'warning',
+            code: 'shared-pinmap-pin',
+            message: `${where}: ${signals.join(', ')} share pin ${pinName}`
+          })
+        }
+      }
+    })
+  }
+
+  return issues
+}
+
+// 定时器的 CHx 与 ETR 共用一个引脚是常见设计 (如 TIM2_CH1_ETR)
+function isSharedByDesign(type: string, signals: string[]): boolean {
+  return type === 'timer' &&
+    signals.length === 2 &&
+    signals.includes('ETR') &&
+    signals.some(signal => /^CH\d$/.test(signal))
+}
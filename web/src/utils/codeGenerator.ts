@@ -0,0 +1,315 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation, PinConfig } from '@/types/pinmux'
+import { STDPERIPH_FAMILIES, type StdPeriphFamily } from '@/config/stdPeriph'
+import { findFunctionContext } from '@/utils/pinmapUtils'
+import { toUniqueCIdentifiers } from '@/utils/pinAnnotations'
+import { findConfigurationConflicts } from '@/utils/pinAssignment'
+import { toFunctionMap } from '@/utils/pinSettings'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 生成的 C 初始化代码 (WCH StdPeriph SDK)
+ */
+export interface GeneratedCode {
+  /** pinmux.h 内容 */
+  header: string
+  /** pinmux.c 内容 */
+  source: string
+}
+
+/** StdPeriph 中的 GPIO 模式 (GPIOMode_TypeDef 去掉 GPIO_Mode_ 前缀) */
+export type GpioMode = 'AIN' | 'IN_FLOATING' | 'IPD' | 'IPU' | 'Out_OD' | 'Out_PP' | 'AF_OD' | 'AF_PP'
+
+// 外设时钟所在总线 (CH32V/CH32F 系列 StdPeriph 命名)
+const RCC_BUS: Record<string, 'AHB' | 'APB1' | 'APB2'> = {
+  ADC1: 'APB2', ADC2: 'APB2', TIM1: 'APB2', TIM8: 'APB2', TIM9: 'APB2', TIM10: 'APB2',
+  SPI1: 'APB2', USART1: 'APB2',
+  TIM2: 'APB1', TIM3: 'APB1', TIM4: 'APB1', TIM5: 'APB1', TIM6: 'APB1', TIM7: 'APB1',
+  USART2: 'APB1', USART3: 'APB1', USART4: 'APB1',
+  UART4: 'APB1', UART5: 'APB1', UART6: 'APB1', UART7: 'APB1', UART8: 'APB1',
+  SPI2: 'APB1', SPI3: 'APB1', I2C1: 'APB1', I2C2: 'APB1',
+  CAN1: 'APB1', CAN2: 'APB1', USB: 'APB1', DAC: 'APB1',
+  FSMC: 'AHB', OTG_FS: 'AHB', USBHS: 'AHB', ETH_MAC: 'AHB'
+}
+
+// 数据文件中的外设名与 SDK 时钟名不一致的情况
+const RCC_ALIAS: Record<string, string> = {
+  ADC: 'ADC1',
+  I2S2: 'SPI2',
+  I2S3: 'SPI3',
+  DAC1: 'DAC',
+  DAC2: 'DAC',
+  USBFS: 'OTG_FS',
+  OTG_GS: 'USBHS',
+  ETH: 'ETH_MAC'
+}
+
+// 这些外设的引脚由硬件自动接管，不需要 GPIO_Init
+const NO_GPIO_INIT_TYPES = ['usb', 'sys']
+
+/**
+ * 将引脚电气配置转换为 StdPeriph 的 GPIO 模式
+ * F1 风格的 GPIO 没有独立的复用输入模式，复用功能的输入信号使用普通输入模式
+ */
+export function toGpioMode(config: PinConfig): GpioMode {
+  switch (config.mode) {
+    case 'analog':
+      return 'AIN'
+    case 'input':
+      if (config.pull === 'up') return 'IPU'
+      if (config.pull === 'down') return 'IPD'
+      return 'IN_FLOATING'
+    case 'output':
+      return config.drive === 'open-drain' ? 'Out_OD' : 'Out_PP'
+    default:
+      return config.drive === 'open-drain' ? 'AF_OD' : 'AF_PP'
+  }
+}
+
+/**
+ * 查找芯片系列对应的 StdPeriph SDK，不支持的系列返回 undefined
+ */
+export function findStdPeriphFamily(family: string): StdPeriphFamily | undefined {
+  return STDPERIPH_FAMILIES.find(entry => entry.pattern.test(family))
+}
+
+/**
+ * 获取外设使用某个 pinmap 时 GPIO_PinRemapConfig 的参数
+ * 按引脚在系列重映射表中识别模式 (同系列芯片的 pinmap 顺序可能不同)；
+ * 默认映射返回空数组，表中没有的系列或映射返回 undefined
+ */
+export function getRemapMacros(chip: ChipDefinition, periphName: string, mapIndex: number): string[] | undefined {
+  if (mapIndex === 0) return []
+  const pinmap = chip.peripherals?.[periphName]?.pinmaps[mapIndex]
+  const modes = findStdPeriphFamily(chip.meta.family)?.remaps[periphName]
+  if (!pinmap || !modes) return undefined
+
+  return modes.find(mode => {
+    const signals = Object.keys(mode.pins).filter(signal => pinmap[signal])
+    return signals.length > 0 && signals.every(signal => pinmap[signal] === mode.pins[signal])
+  })?.macros
+}
+
+// low/medium/high -> 2MHz/10MHz/最高速；CH32V00x 系列最高速度为 30MHz，其余为 50MHz
+function getSpeedMacro(family: string, speed: PinConfig['speed']): string {
+  if (speed === 'low') return 'GPIO_Speed_2MHz'
+  if (speed === 'medium') return 'GPIO_Speed_10MHz'
+  return /^CH32V00/i.test(family) ? 'GPIO_Speed_30MHz' : 'GPIO_Speed_50MHz'
+}
+
+interface PinEntry {
+  pinName: string
+  pinNumber: number
+  func: string
+  label?: string
+  mode: GpioMode
+  speed: string
+  /** 仅通用输出需要设置初始电平 */
+  initialState?: PinConfig['initialState']
+}
+
+/**
+ * 根据当前芯片和引脚配置生成 pinmux.c / pinmux.h
+ * - 按总线合并 RCC 时钟使能，不在时钟表中的外设生成 #warning
+ * - 整体重映射的外设使用非默认 pinmap 时按系列重映射表生成 GPIO_PinRemapConfig
+ * - 混用 pinmap、per-pin 外设 (按引脚选择 AF，StdPeriph 的 AFIO 无法配置)、表中没有的重映射、
+ *   非 StdPeriph 系列等无法生成正确代码的情况生成 #error
+ * - 同一端口、相同模式的引脚合并为一次 GPIO_Init
+ * - 带网络标签的引脚在 pinmux.h 中生成 <LABEL>_GPIO_Port / <LABEL>_Pin 宏，转换后重名的标签加序号后缀
+ */
+export function generateInitCode(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+): GeneratedCode {
+  const { meta } = chip
+  const family = findStdPeriphFamily(meta.family)
+  const ports = new Map<string, PinEntry[]>()
+  const clocks: Record<'AHB' | 'APB1' | 'APB2', Set<string>> = {
+    AHB: new Set(),
+    APB1: new Set(),
+    APB2: new Set()
+  }
+  const remaps = new Map<string, string>() // macro -> comment
+  const unknownClocks = new Set<string>()
+  const unknownRemaps = new Set<string>() // 如 "UART4 pinmap 1"
+  // 混用 pinmap 或同一信号分配到多个引脚时无法确定重映射，生成 #error 让编译失败
+  const conflicts = findConfigurationConflicts(chip, toFunctionMap(configurations))
+  const conflicted = new Set(conflicts.map(conflict => conflict.peripheral))
+  // per-pin 外设 -> 使用的引脚和 AF，如 "PA9 AF7"
+  const alternateFunctionPins = new Map<string, string[]>()
+
+  for (const [pinName, config] of Object.entries(configurations)) {
+    const func = config.function
+    const match = pinName.match(/^P([A-Z])(\d+)$/) // 只处理 GPIO 引脚 (同 GPIO_REGEX)
+    if (!match || !func) continue
+
+    const context = findFunctionContext(chip, func, pinName)
+    if (context && NO_GPIO_INIT_TYPES.includes(context.periphDef.type)) continue
+
+    const [, port = 'A', pinNumber = '0'] = match
+    if (!ports.has(port)) ports.set(port, [])
+    const mode = toGpioMode(config)
+    ports.get(port)!.push({
+      pinName,
+      pinNumber: parseInt(pinNumber, 10),
+      func,
+      label: annotations[pinName]?.label || undefined,
+      mode,
+      speed: getSpeedMacro(meta.family, config.speed),
+      initialState: mode === 'Out_PP' || mode === 'Out_OD' ? config.initialState : undefined
+    })
+    clocks.APB2.add(`GPIO${port}`)
+
+    if (!context) continue
+
+    // 按引脚选择 AF 的外设没有 AFIO 重映射组
+    if (context.periphDef.pinmapStyle === 'per-pin') {
+      const af = context.periphDef.alternateFunctions?.[context.mapIndex]
+      const pins = alternateFunctionPins.get(context.periphName) || []
+      pins.push(af !== null && af !== undefined ? `${pinName} AF${af}` : pinName)
+      alternateFunctionPins.set(context.periphName, pins)
+    } else if (context.mapIndex !== 0 && !conflicted.has(context.periphName)) {
+      const comment = `${context.periphName} pinmap ${context.mapIndex}`
+      const macros = getRemapMacros(chip, context.periphName, context.mapIndex)
+      if (macros) {
+        clocks.APB2.add('AFIO')
+        macros.forEach(macro => remaps.set(macro, comment))
+      } else {
+        unknownRemaps.add(comment)
+      }
+    }
+
+    const clockName = family?.clockAliases?.[context.periphName] || RCC_ALIAS[context.periphName] || context.periphName
+    const bus = RCC_BUS[clockName]
+    if (bus) {
+      clocks[bus].add(clockName)
+    } else {
+      unknownClocks.add(context.periphName)
+    }
+  }
+
+  // --- pinmux.h ---
+  // 已配置的 GPIO 引脚的标签宏，按引脚名排序
+  const labelDefines: string[] = []
+  const labelled = [...ports.entries()]
+    .flatMap(([port, entries]) => entries.map(entry => ({ port, entry })))
+    .filter(({ entry }) => entry.label)
+    .sort((a, b) => compareNames(a.entry.pinName, b.entry.pinName))
+  const names = toUniqueCIdentifiers(labelled.map(({ entry }) => entry.label!))
+  labelled.forEach(({ port, entry }, index) => {
+    const name = names[index]!
+    labelDefines.push(
+      `#define ${name}_GPIO_Port GPIO${port}`,
+      `#define ${name}_Pin GPIO_Pin_${entry.pinNumber}`
+    )
+  })
+  if (labelDefines.length > 0) {
+    labelDefines.unshift('/* Pin labels */')
+    labelDefines.push('')
+  }
+
+  const guard = 'PINMUX_H'
+  const header = [
+    '/**',
+    ' * @file    pinmux.h',
+    ` * @brief   Pin multiplexing for ${meta.name} (${meta.package})`,
+    ' *          Generated by PinMuxLab. Do not edit manually.',
+    ' */',
+    `#ifndef ${guard}`,
+    `#define ${guard}`,
+    '',
+    family
+      ? `#include "${family.header}"`
+      : `#error "${meta.family} is not supported by the StdPeriph code generator"`,
+    '',
+    ...labelDefines,
+    'void PinMux_Init(void);',
+    '',
+    `#endif /* ${guard} */`,
+    ''
+  ].join('\n')
+
+  // --- pinmux.c ---
+  const lines: string[] = [
+    '/**',
+    ' * @file    pinmux.c',
+    ` * @brief   Pin multiplexing for ${meta.name} (${meta.package})`,
+    ' *          Generated by PinMuxLab. Do not edit manually.',
+    ' */',
+    '#include "pinmux.h"',
+    '',
+    ...conflicts.map(conflict => `#error "${conflict.message}"`),
+    ...[...alternateFunctionPins].map(([name, pins]) =>
+      `#error "${name} selects pins by alternate function number (${pins.sort(compareNames).join(', ')}); configure it with the vendor SDK"`),
+    ...[...unknownRemaps].map(remap => `#error "No StdPeriph remap is known for ${remap} on ${meta.family}; configure AFIO manually"`),
+    ...[...unknownClocks].map(name => `#warning "Enable the clock of ${name} manually: it is not in the RCC bus table"`),
+    ...(conflicts.length > 0 || alternateFunctionPins.size > 0 || unknownRemaps.size > 0 || unknownClocks.size > 0
+      ? ['']
+      : []),
+    'void PinMux_Init(void)',
+    '{'
+  ]
+
+  if (ports.size > 0) {
+    lines.push('    GPIO_InitTypeDef GPIO_InitStructure = {0};', '')
+  }
+
+  // 时钟
+  const busOrder: Array<'AHB' | 'APB2' | 'APB1'> = ['AHB', 'APB2', 'APB1']
+  const clockLines = busOrder
+    .filter(bus => clocks[bus].size > 0)
+    .map(bus => {
+      const mask = [...clocks[bus]].sort(compareNames).map(name => `RCC_${bus}Periph_${name}`).join(' | ')
+      return `    RCC_${bus}PeriphClockCmd(${mask}, ENABLE);`
+    })
+  if (clockLines.length > 0) {
+    lines.push('    /* Clocks */', ...clockLines, '')
+  }
+
+  // 重映射
+  if (remaps.size > 0) {
+    lines.push('    /* Remap */')
+    for (const [macro, comment] of remaps) {
+      lines.push(`    GPIO_PinRemapConfig(${macro}, ENABLE); /* ${comment} */`)
+    }
+    lines.push('')
+  }
+
+  // GPIO 初始化：按端口 -> 模式/速度/初始电平分组
+  for (const port of [...ports.keys()].sort()) {
+    const entries = ports.get(port)!.sort((a, b) => a.pinNumber - b.pinNumber)
+    lines.push(`    /* GPIO${port} */`)
+
+    const groups = new Map<string, PinEntry[]>()
+    entries.forEach(entry => {
+      const key = `${entry.mode}|${entry.speed}|${entry.initialState || ''}`
+      if (!groups.has(key)) groups.set(key, [])
+      groups.get(key)!.push(entry)
+    })
+
+    for (const group of groups.values()) {
+      const { mode, speed, initialState } = group[0]!
+      const mask = group.map(e => `GPIO_Pin_${e.pinNumber}`).join(' | ')
+      group.forEach(entry => {
+        lines.push(`    /* ${entry.pinName}: ${entry.func}${entry.label ? ` (${entry.label})` : ''} */`)
+      })
+      // 先写输出寄存器再切换为输出模式，避免上电瞬间的电平毛刺
+      if (initialState) {
+        lines.push(`    ${initialState === 'high' ? 'GPIO_SetBits' : 'GPIO_ResetBits'}(GPIO${port}, ${mask});`)
+      }
+      lines.push(
+        `    GPIO_InitStructure.GPIO_Pin = ${mask};`,
+        `    GPIO_InitStructure.GPIO_Mode = GPIO_Mode_${mode};`,
+        `    GPIO_InitStructure.GPIO_Speed = ${speed};`,
+        `    GPIO_Init(GPIO${port}, &GPIO_InitStructure);`,
+        ''
+      )
+    }
+  }
+
+  if (lines[lines.length - 1] === '') lines.pop()
+  lines.push('}', '')
+
+  return { header, source: lines.join('\n') }
+}
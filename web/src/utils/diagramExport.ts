@@ -0,0 +1,326 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation, PinConfig } from '@/types/pinmux'
+import { PERIPHERAL_TYPE_LABELS } from '@/config/pinConfig'
+import { findFunctionContext } from '@/utils/pinmapUtils'
+import {
+  calculateLayout,
+  formatGridRow,
+  getFunctionLabelPosition,
+  getPinSide,
+  type PackageLayout,
+  type RenderedPin
+} from '@/utils/packageLayout'
+import { escapeXml, formatNumber } from '@/utils/textUtils'
+
+export type DiagramTheme = 'light' | 'dark'
+
+/**
+ * 图例条目：引脚按已配置功能的外设类型 (或固定功能类型) 着色
+ */
+export interface DiagramLegendEntry {
+  key: string
+  label: string
+  color: string
+}
+
+interface DiagramPalette {
+  background: string
+  text: string
+  mutedText: string
+  border: string
+  body: string
+  bodyStroke: string
+  pinStroke: string
+  /** 浅色引脚上的文字 */
+  pinText: string
+  netLabel: string
+  unassigned: string
+  power: string
+  system: string
+  nc: string
+}
+
+// 与 chip-theme.css 中的引脚颜色一致
+const PALETTES: Record<DiagramTheme, DiagramPalette> = {
+  light: {
+    background: '#ffffff',
+    text: '#000000',
+    mutedText: '#666666',
+    border: '#cccccc',
+    body: '#333333',
+    bodyStroke: '#666666',
+    pinStroke: '#666666',
+    pinText: '#000000',
+    netLabel: '#2e8b57',
+    unassigned: '#e0e0e0',
+    power: '#ffd666',
+    system: '#fffb8f',
+    nc: '#f0e68c'
+  },
+  dark: {
+    background: '#1e1e1e',
+    text: '#ffffff',
+    mutedText: '#aaaaaa',
+    border: '#444444',
+    body: '#111111',
+    bodyStroke: '#777777',
+    pinStroke: '#888888',
+    pinText: '#000000',
+    netLabel: '#42b883',
+    unassigned: '#4a4a4a',
+    power: '#d4b106',
+    system: '#d48806',
+    nc: '#827717'
+  }
+}
+
+// 已配置引脚按外设类型着色 (两种主题共用，白色文字)
+const PERIPHERAL_COLORS: Record<string, string> = {
+  uart: '#1677ff',
+  spi: '#9254de',
+  i2c: '#08979c',
+  i2s: '#597ef7',
+  adc: '#d46b08',
+  dac: '#d4380d',
+  can: '#c41d7f',
+  usb: '#2f54eb',
+  eth: '#722ed1',
+  opa: '#ad4e00',
+  timer: '#389e0d',
+  pwm: '#5b8c00',
+  fsmc: '#006d75',
+  touchkey: '#eb2f96',
+  comparator: '#874d00'
+}
+const GPIO_COLOR = '#42b883'
+const OTHER_COLOR = '#8c8c8c'
+
+// 图例中非外设条目的顺序和名称
+const FIXED_LEGEND: Array<{ key: string; label: string }> = [
+  { key: 'gpio', label: 'GPIO' },
+  { key: 'other', label: 'Other function' },
+  { key: 'power', label: 'Power / GND' },
+  { key: 'system', label: 'Reset / Boot / Clock' },
+  { key: 'nc', label: 'NC' },
+  { key: 'unassigned', label: 'Unassigned' }
+]
+
+const LEGEND_WIDTH = 200
+const LEGEND_ROW = 22
+const TITLE_HEIGHT = 84
+
+/**
+ * 引脚在导出图中的分类
+ * - 已配置：外设类型 (uart, spi...)，GPIO 为 "gpio"，无法归类的为 "other"
+ * - 未配置：固定功能引脚为 "power" / "system" / "nc"，其余为 "unassigned"
+ */
+export function classifyDiagramPin(chip: ChipDefinition, pinName: string, config?: PinConfig): string {
+  if (config?.function) {
+    if (config.function === 'GPIO') return 'gpio'
+    const type = findFunctionContext(chip, config.function, pinName)?.periphDef.type
+    return type && PERIPHERAL_COLORS[type] ? type : 'other'
+  }
+  const cap = chip.pins[pinName]
+  if (!cap?.fixed) return 'unassigned'
+  if (cap.type === 'power' || cap.type === 'gnd') return 'power'
+  if (cap.type === 'nc') return 'nc'
+  return 'system'
+}
+
+function getClassColor(key: string, palette: DiagramPalette): string {
+  if (PERIPHERAL_COLORS[key]) return PERIPHERAL_COLORS[key]
+  switch (key) {
+    case 'gpio': return GPIO_COLOR
+    case 'other': return OTHER_COLOR
+    case 'power': return palette.power
+    case 'system': return palette.system
+    case 'nc': return palette.nc
+    default: return palette.unassigned
+  }
+}
+
+// 饱和色 (外设 / GPIO) 上用白字，其余用主题的引脚文字颜色
+function getClassTextColor(key: string, palette: DiagramPalette): string {
+  if (PERIPHERAL_COLORS[key] || key === 'gpio' || key === 'other') return '#ffffff'
+  return key === 'unassigned' ? palette.text : palette.pinText
+}
+
+/**
+ * 计算图例：只列出图中实际出现的分类，外设类型在前
+ */
+export function getDiagramLegend(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  theme: DiagramTheme = 'light'
+): DiagramLegendEntry[] {
+  const palette = PALETTES[theme]
+  const keys = new Set(chip.package.pins.map(pin => classifyDiagramPin(chip, pin.name, configurations[pin.name])))
+
+  const peripheralEntries = [...keys]
+    .filter(key => PERIPHERAL_COLORS[key])
+    .map(key => ({ key, label: PERIPHERAL_TYPE_LABELS[key] || key, color: getClassColor(key, palette) }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+  const fixedEntries = FIXED_LEGEND
+    .filter(entry => keys.has(entry.key))
+    .map(entry => ({ ...entry, color: getClassColor(entry.key, palette) }))
+  return [...peripheralEntries, ...fixedEntries]
+}
+
+/**
+ * 生成封装图的独立 SVG (不含界面的缩放/平移状态)
+ * 包含引脚编号、名称、已配置功能与网络标签、按外设类型着色的图例，以及芯片信息标题栏
+ * @param options.date 标题栏中显示的日期 (可选)
+ */
+export function renderPackageDiagram(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {},
+  options: { theme?: DiagramTheme; date?: string } = {}
+): string {
+  const theme = options.theme || 'light'
+  const palette = PALETTES[theme]
+  const layout = calculateLayout(chip.package)
+  const legend = getDiagramLegend(chip, configurations, theme)
+
+  const diagramHeight = Math.max(layout.height, 40 + legend.length * LEGEND_ROW)
+  const width = layout.width + LEGEND_WIDTH
+  const height = diagramHeight + TITLE_HEIGHT
+
+  const parts: string[] = []
+  parts.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<style>
+    text { font-family: monospace; font-size: 10px; }
+    .pin-name { font-weight: bold; }
+    .pin-number { font-size: 8px; fill: ${palette.mutedText}; }
+    .pin-function { font-weight: bold; fill: ${palette.text}; }
+    .net-label { fill: ${palette.netLabel}; }
+    .title { font-family: sans-serif; font-size: 18px; font-weight: bold; fill: ${palette.text}; }
+    .subtitle { font-family: sans-serif; font-size: 12px; fill: ${palette.mutedText}; }
+    .legend-title { font-family: sans-serif; font-size: 12px; font-weight: bold; fill: ${palette.text}; }
+    .legend-label { font-family: sans-serif; font-size: 12px; fill: ${palette.text}; }
+  </style>`,
+    `<rect x="0" y="0" width="${width}" height="${height}" fill="${palette.background}"/>`
+  )
+
+  // 芯片主体、Pin 1 标识和网格表头
+  const { body } = layout
+  parts.push(
+    `<rect x="${formatNumber(body.x)}" y="${formatNumber(body.y)}" width="${formatNumber(body.width)}" height="${formatNumber(body.height)}" rx="4" fill="${palette.body}" stroke="${palette.bodyStroke}" stroke-width="2"/>`
+  )
+  if (layout.pin1Mark) {
+    const mark = layout.pin1Mark
+    parts.push(`<circle cx="${formatNumber(mark.cx)}" cy="${formatNumber(mark.cy)}" r="${mark.r}" fill="#ffffff" opacity="0.8"/>`)
+  }
+  for (const header of layout.gridHeaders || []) {
+    parts.push(
+      `<text x="${formatNumber(header.x)}" y="${formatNumber(header.y)}" text-anchor="middle" dominant-baseline="middle" font-size="12" font-weight="bold" fill="${palette.text}">${escapeXml(header.text)}</text>`
+    )
+  }
+
+  // 引脚
+  for (const pin of layout.pins) {
+    parts.push(renderPin(chip, layout, pin, configurations[pin.name], annotations[pin.name], palette))
+  }
+
+  // 主体上的芯片信息 (与编辑器一致)
+  const info = layout.infoCenter || { x: layout.width / 2, y: layout.height / 2 }
+  const onBody = layout.kind !== 'grid'
+  parts.push(
+    `<text x="${formatNumber(info.x)}" y="${formatNumber(info.y - 18)}" text-anchor="middle" font-size="10" font-weight="bold" fill="#aaaaaa">${escapeXml(chip.meta.vendor)}</text>`,
+    `<text x="${formatNumber(info.x)}" y="${formatNumber(info.y)}" text-anchor="middle" dominant-baseline="middle" font-size="12" font-weight="bold" fill="${onBody ? '#ffffff' : palette.text}">${escapeXml(chip.meta.name)}</text>`,
+    `<text x="${formatNumber(info.x)}" y="${formatNumber(info.y + 18)}" text-anchor="middle" dominant-baseline="hanging" fill="#aaaaaa">${escapeXml(chip.meta.package)}</text>`
+  )
+
+  // 图例 (右侧)
+  const legendX = layout.width + 10
+  parts.push(`<text x="${legendX}" y="30" class="legend-title">Legend</text>`)
+  legend.forEach((entry, index) => {
+    const y = 40 + index * LEGEND_ROW
+    parts.push(
+      `<rect x="${legendX}" y="${y}" width="14" height="14" rx="2" fill="${entry.color}" stroke="${palette.pinStroke}"/>`,
+      `<text x="${legendX + 22}" y="${y + 7}" dominant-baseline="middle" class="legend-label">${escapeXml(entry.label)}</text>`
+    )
+  })
+
+  // 标题栏 (底部)
+  const configured = Object.keys(configurations).filter(pin => chip.pins[pin]).length
+  const { meta } = chip
+  const details = [meta.vendor, meta.family, meta.package, meta.core].filter(Boolean).join(' · ')
+  const memory = [meta.flash && `Flash ${meta.flash}`, meta.sram && `SRAM ${meta.sram}`, `${configured} pins configured`, options.date]
+    .filter(Boolean)
+    .join(' · ')
+  parts.push(
+    `<line x1="0" y1="${diagramHeight}" x2="${width}" y2="${diagramHeight}" stroke="${palette.border}" stroke-width="2"/>`,
+    `<text x="16" y="${diagramHeight + 28}" class="title">${escapeXml(meta.name)}</text>`,
+    `<text x="16" y="${diagramHeight + 50}" class="subtitle">${escapeXml(details)}</text>`,
+    `<text x="16" y="${diagramHeight + 68}" class="subtitle">${escapeXml(memory)}</text>`,
+    '</svg>'
+  )
+
+  return parts.join('\n')
+}
+
+function renderPin(
+  chip: ChipDefinition,
+  layout: PackageLayout,
+  pin: RenderedPin,
+  config: PinConfig | undefined,
+  annotation: PinAnnotation | undefined,
+  palette: DiagramPalette
+): string {
+  const key = classifyDiagramPin(chip, pin.name, config)
+  const isPad = pin.number === 0
+  const rx = layout.kind === 'grid' ? pin.width / 2 : 0
+  const parts: string[] = [
+    `<rect x="${formatNumber(pin.x)}" y="${formatNumber(pin.y)}" width="${formatNumber(pin.width)}" height="${formatNumber(pin.height)}" rx="${formatNumber(rx)}" fill="${getClassColor(key, palette)}"${isPad ? ' fill-opacity="0.35"' : ''} stroke="${palette.pinStroke}"/>`,
+    `<text x="${formatNumber(pin.labelX)}" y="${formatNumber(pin.labelY)}" text-anchor="${pin.textAnchor}" dominant-baseline="${pin.dominantBaseline}" class="pin-name" fill="${isPad ? '#ffffff' : getClassTextColor(key, palette)}"${layout.kind === 'grid' ? ' font-size="8"' : ''}>${escapeXml(pin.name)}</text>`
+  ]
+
+  // 引脚编号 (主体内侧)；网格封装标注焊球位置
+  const numberText = layout.kind === 'grid' ? getBallName(pin) : isPad ? '' : String(pin.number)
+  const numberPos = getNumberPosition(layout, pin)
+  if (numberText && numberPos) {
+    parts.push(
+      `<text x="${formatNumber(numberPos.x)}" y="${formatNumber(numberPos.y)}" text-anchor="${numberPos.anchor}" dominant-baseline="${numberPos.baseline}" class="pin-number">${escapeXml(numberText)}</text>`
+    )
+  }
+
+  // 网络标签 + 功能名称 (引脚外侧)
+  const label = annotation?.label || ''
+  const func = config?.function || ''
+  if (label || func) {
+    const pos = getFunctionLabelPosition(layout, pin)
+    const spans = [
+      label && `<tspan class="net-label">${escapeXml(label)}</tspan>`,
+      label && func && '<tspan> · </tspan>',
+      func && `<tspan>${escapeXml(func)}</tspan>`
+    ].filter(Boolean).join('')
+    parts.push(
+      `<text x="${formatNumber(pos.x)}" y="${formatNumber(pos.y)}" text-anchor="${pos.anchor}" dominant-baseline="${pos.baseline}" transform="rotate(${pos.rotation}, ${formatNumber(pos.x)}, ${formatNumber(pos.y)})" class="pin-function"${layout.kind === 'grid' ? ' font-size="8"' : ''}>${spans}</text>`
+    )
+  }
+
+  return parts.join('\n')
+}
+
+// 引脚编号显示在主体内侧，紧贴引脚
+function getNumberPosition(layout: PackageLayout, pin: RenderedPin) {
+  const gap = 4
+  const cx = pin.x + pin.width / 2
+  const cy = pin.y + pin.height / 2
+  if (layout.kind === 'grid') return { x: cx, y: pin.y - 2, anchor: 'middle', baseline: 'auto' }
+  switch (getPinSide(layout, pin)) {
+    case 'left': return { x: pin.x + pin.width + gap, y: cy, anchor: 'start', baseline: 'middle' }
+    case 'right': return { x: pin.x - gap, y: cy, anchor: 'end', baseline: 'middle' }
+    case 'top': return { x: cx, y: pin.y + pin.height + gap, anchor: 'middle', baseline: 'hanging' }
+    case 'bottom': return { x: cx, y: pin.y - gap, anchor: 'middle', baseline: 'auto' }
+  }
+  return null
+}
+
+function getBallName(pin: RenderedPin): string {
+  if (pin.ball) return pin.ball.toUpperCase()
+  if (pin.row && pin.col) return `${formatGridRow(pin.row)}${pin.col}`
+  return ''
+}
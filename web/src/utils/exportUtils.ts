@@ -1,11 +1,41 @@
 import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation, PinConfig } from '@/types/pinmux'
+import { generateInitCode } from '@/utils/codeGenerator'
+import { createProject, serializeProject, PROJECT_FILE_EXTENSION } from '@/utils/projectFile'
+import { renderPackageDiagram, type DiagramTheme } from '@/utils/diagramExport'
+import { buildPinoutReport, renderReportHtml, renderReportMarkdown } from '@/utils/pinoutReport'
+import { generateKicadSymbol } from '@/utils/kicadSymbol'
+import { generateZephyrOverlay } from '@/utils/zephyrOverlay'
+import { generateArduinoVariant } from '@/utils/arduinoVariant'
 
-export function exportConfigurationToCSV(
+/**
+ * 触发浏览器下载文件 (文本或二进制)
+ */
+export function downloadFile(content: BlobPart, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType })
+
+  // 创建下载链接
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+  link.setAttribute('href', url)
+  link.setAttribute('download', filename)
+
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+/**
+ * 生成引脚配置 CSV (每个物理引脚一行，按引脚编号排序)
+ */
+export function generateConfigurationCsv(
   chip: ChipDefinition,
-  configurations: Record<string, string>
-) {
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+): string {
   // CSV Header
-  const headers = ['Pin Name', 'Physical Number', 'Type', 'Configured Function']
+  const headers = ['Pin Name', 'Physical Number', 'Type', 'Configured Function', 'Mode', 'Drive', 'Pull', 'Speed', 'Initial State', 'Label', 'Note']
   const rows: string[] = []
 
   rows.push(headers.join(','))
@@ -20,41 +50,178 @@ export function exportConfigurationToCSV(
     const pinName = pin.name
     const pinNumber = pin.number
     const pinType = chip.pins[pinName]?.type || 'unknown'
-    const configuredFunc = configurations[pinName] || '' // 如果没配置留空
+    const config = configurations[pinName] // 如果没配置，以下各列留空
+    const annotation = annotations[pinName]
 
     // 只有当用户配置了功能，或者你想导出所有引脚时。
     // 通常导出 CSV 是为了生成 BOM 或代码，导出所有引脚状态比较好。
     
-    // CSV 转义处理 (简单处理逗号)
+    // CSV 转义处理：备注可能包含逗号、引号和换行，按 RFC 4180 加引号转义
     const row = [
       pinName,
       pinNumber,
       pinType,
-      configuredFunc
+      config?.function || '',
+      config?.mode || '',
+      config?.drive || '',
+      config?.pull || '',
+      config?.speed || '',
+      config?.initialState || '',
+      annotation?.label || '',
+      annotation?.note || ''
     ].map(field => {
       const str = String(field)
-      return str.includes(',') ? `"${str}"` : str
+      return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
     })
 
     rows.push(row.join(','))
   }
 
-  // 生成 Blob
-  const csvContent = rows.join('\n')
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-  
-  // 创建下载链接
-  const link = document.createElement('a')
-  const url = URL.createObjectURL(blob)
-  link.setAttribute('href', url)
-  
+  return rows.join('\n')
+}
+
+export function exportConfigurationToCSV(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+) {
   // 文件名: ChipName_PinMux_Timestamp.csv
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19)
   const filename = `${chip.meta.name}_PinMux_${timestamp}.csv`
-  link.setAttribute('download', filename)
-  
-  link.style.visibility = 'hidden'
-  document.body.appendChild(link)
-  link.click()
-  document.body.removeChild(link)
+  downloadFile(generateConfigurationCsv(chip, configurations, annotations), filename, 'text/csv;charset=utf-8;')
+}
+
+/**
+ * 导出 WCH StdPeriph SDK 初始化代码 (pinmux.c / pinmux.h)
+ */
+export function exportInitCode(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+) {
+  const { header, source } = generateInitCode(chip, configurations, annotations)
+  downloadFile(header, 'pinmux.h', 'text/x-chdr;charset=utf-8;')
+  downloadFile(source, 'pinmux.c', 'text/x-csrc;charset=utf-8;')
+}
+
+/**
+ * 保存工程文件 (<ChipName>.pinmux.json)
+ */
+export function exportProject(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+) {
+  const project = createProject(chip, configurations, annotations)
+  downloadFile(serializeProject(project), `${chip.meta.name}${PROJECT_FILE_EXTENSION}`, 'application/json;charset=utf-8;')
+}
+
+/**
+ * 导出封装图 (<ChipName>_<theme>.svg / .png)
+ * PNG 由 SVG 按 scale 倍光栅化得到
+ */
+export async function exportDiagram(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {},
+  options: { format: 'svg' | 'png'; theme: DiagramTheme; scale?: number }
+) {
+  const svg = renderPackageDiagram(chip, configurations, annotations, {
+    theme: options.theme,
+    date: new Date().toISOString().slice(0, 10)
+  })
+  const basename = `${chip.meta.name}_${options.theme}`
+  if (options.format === 'svg') {
+    downloadFile(svg, `${basename}.svg`, 'image/svg+xml;charset=utf-8;')
+    return
+  }
+  const png = await rasterizeSvg(svg, options.scale || 2)
+  downloadFile(png, `${basename}.png`, 'image/png')
+}
+
+/**
+ * 导出引脚报告 (<ChipName>_Pinout.html / .md)，包含封装图
+ */
+export function exportPinoutReport(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {},
+  format: 'html' | 'md'
+) {
+  const report = buildPinoutReport(chip, configurations, annotations)
+  const diagram = renderPackageDiagram(chip, configurations, annotations, {
+    theme: 'light',
+    date: new Date().toISOString().slice(0, 10)
+  })
+  if (format === 'html') {
+    downloadFile(renderReportHtml(report, diagram), `${chip.meta.name}_Pinout.html`, 'text/html;charset=utf-8;')
+  } else {
+    downloadFile(renderReportMarkdown(report, diagram), `${chip.meta.name}_Pinout.md`, 'text/markdown;charset=utf-8;')
+  }
+}
+
+/**
+ * 导出 KiCad 符号库 (<ChipName>.kicad_sym)
+ */
+export function exportKicadSymbol(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+) {
+  const symbol = generateKicadSymbol(chip, configurations, annotations)
+  downloadFile(symbol, `${chip.meta.name}.kicad_sym`, 'text/plain;charset=utf-8;')
+}
+
+/**
+ * 导出 Zephyr 设备树 overlay (<ChipName>.overlay)
+ */
+export function exportZephyrOverlay(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+) {
+  const overlay = generateZephyrOverlay(chip, configurations, annotations)
+  downloadFile(overlay, `${chip.meta.name}.overlay`, 'text/plain;charset=utf-8;')
+}
+
+/**
+ * 导出 Arduino core 变体文件 (PeripheralPins.c + variant.h)
+ */
+export function exportArduinoVariant(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+) {
+  const { peripheralPins, variantHeader } = generateArduinoVariant(chip, configurations, annotations)
+  downloadFile(peripheralPins, 'PeripheralPins.c', 'text/plain;charset=utf-8;')
+  downloadFile(variantHeader, 'variant.h', 'text/plain;charset=utf-8;')
+}
+
+/**
+ * 将 SVG 文本光栅化为 PNG
+ * @throws 浏览器无法加载 SVG 或生成图片时抛出错误
+ */
+async function rasterizeSvg(svg: string, scale: number): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }))
+  try {
+    const image = new Image()
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve()
+      image.onerror = () => reject(new Error('The diagram could not be rendered as an image'))
+      image.src = url
+    })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.ceil(image.width * scale)
+    canvas.height = Math.ceil(image.height * scale)
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas is not available in this browser')
+    context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+    })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
 }
@@ -0,0 +1,253 @@
+import type { ChipDefinition, PhysicalPin } from '@/types/chip'
+import type { PinAnnotation, PinConfig } from '@/types/pinmux'
+import { findFunctionContext, stripPinmapSuffix } from '@/utils/pinmapUtils'
+import { formatGridRow } from '@/utils/packageLayout'
+import { compareNames, formatNumber } from '@/utils/textUtils'
+
+/**
+ * KiCad 引脚电气类型
+ */
+export type KicadPinType =
+  | 'input'
+  | 'output'
+  | 'bidirectional'
+  | 'passive'
+  | 'power_in'
+  | 'open_collector'
+  | 'no_connect'
+
+/**
+ * 符号上的一个引脚
+ */
+export interface KicadSymbolPin {
+  /** 引脚编号，与封装焊盘编号一致 (BGA 为焊球位置，如 "A1") */
+  number: string
+  /** 引脚名称，如 "PA9/USART1_TX" */
+  name: string
+  type: KicadPinType
+}
+
+/**
+ * 排在符号同一侧、彼此相邻的一组引脚 (一个外设、一个端口或系统引脚)
+ */
+export interface KicadPinGroup {
+  title: string
+  pins: KicadSymbolPin[]
+}
+
+// 单位：mm，引脚端点和主体边框都落在 100 mil 网格上
+const GRID = 2.54
+const PIN_LENGTH = 2.54
+const FONT_SIZE = 1.27
+// 估算文字宽度 (KiCad 默认字体字宽略小于字号)
+const CHAR_WIDTH = 1.1
+
+/**
+ * 生成 KiCad 符号库 (.kicad_sym)，内含当前芯片的一个符号
+ *
+ * - 引脚编号来自 package.pins；散热焊盘 (编号 0) 按 KiCad 封装库的习惯编为 pinCount + 1
+ * - 带网络标签的引脚名称为 `引脚名/标签`；没有标签时外设引脚为 `引脚名/外设功能`
+ *   (如 PA9/USART1_TX，不带 pinmap 后缀)，其余为引脚名
+ * - 电源在上、地在下；系统引脚、各外设和各端口分组后交替排在左右两侧
+ */
+export function generateKicadSymbol(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+): string {
+  const { top, bottom, groups } = groupSymbolPins(chip, configurations, annotations)
+
+  // 分组交替放到引脚较少的一侧，组之间空一格
+  const left: Array<KicadSymbolPin | null> = []
+  const right: Array<KicadSymbolPin | null> = []
+  for (const group of groups) {
+    const side = left.length <= right.length ? left : right
+    if (side.length > 0) side.push(null)
+    side.push(...group.pins)
+  }
+
+  // 主体尺寸 (取 2 * GRID 的整数倍，使边框和引脚端点都在网格上)
+  const nameWidth = (pins: Array<KicadSymbolPin | null>) =>
+    Math.max(0, ...pins.map(pin => (pin ? pin.name.length * CHAR_WIDTH : 0)))
+  const topPad = top.length > 0 ? snapUp(nameWidth(top) + GRID) : 0
+  const bottomPad = bottom.length > 0 ? snapUp(nameWidth(bottom) + GRID) : 0
+  const width = snapUp(
+    Math.max(nameWidth(left) + nameWidth(right) + GRID * 2, (Math.max(top.length, bottom.length) + 1) * GRID),
+    GRID * 2
+  )
+  const height = snapUp(topPad + bottomPad + (Math.max(left.length, right.length, 1) + 1) * GRID, GRID * 2)
+  const halfW = width / 2
+  const halfH = height / 2
+
+  const pinLines: string[] = []
+  left.forEach((pin, index) => {
+    if (pin) pinLines.push(formatPin(pin, -halfW - PIN_LENGTH, halfH - topPad - (index + 1) * GRID, 0))
+  })
+  right.forEach((pin, index) => {
+    if (pin) pinLines.push(formatPin(pin, halfW + PIN_LENGTH, halfH - topPad - (index + 1) * GRID, 180))
+  })
+  const startX = (count: number) => -Math.floor((count - 1) / 2) * GRID
+  top.forEach((pin, index) => {
+    pinLines.push(formatPin(pin, startX(top.length) + index * GRID, halfH + PIN_LENGTH, 270))
+  })
+  bottom.forEach((pin, index) => {
+    pinLines.push(formatPin(pin, startX(bottom.length) + index * GRID, -halfH - PIN_LENGTH, 90))
+  })
+
+  const { meta } = chip
+  const name = sanitizeSymbolName(meta.name)
+  const refY = halfH + (top.length > 0 ? PIN_LENGTH : 0) + GRID
+  const valueY = -halfH - (bottom.length > 0 ? PIN_LENGTH : 0) - GRID
+  const description = `${meta.vendor} ${meta.name}, ${meta.core}, ${meta.package}` +
+    [meta.flash && `, ${meta.flash} Flash`, meta.sram && `, ${meta.sram} SRAM`].filter(Boolean).join('')
+
+  return [
+    '(kicad_symbol_lib (version 20211014) (generator pinmuxlab)',
+    `  (symbol "${name}" (pin_names (offset 1.016)) (in_bom yes) (on_board yes)`,
+    `    ${formatProperty('Reference', 'U', 0, -halfW, refY)}`,
+    `    ${formatProperty('Value', meta.name, 1, -halfW, valueY)}`,
+    `    ${formatProperty('Footprint', '', 2, 0, 0, true)}`,
+    `    ${formatProperty('Datasheet', meta.datasheet || '', 3, 0, 0, true)}`,
+    `    ${formatProperty('ki_keywords', [meta.vendor, meta.family, meta.core].filter(Boolean).join(' '), 4, 0, 0, true)}`,
+    `    ${formatProperty('ki_description', description, 5, 0, 0, true)}`,
+    `    (symbol "${name}_0_1"`,
+    `      (rectangle (start ${formatNumber(-halfW)} ${formatNumber(halfH)}) (end ${formatNumber(halfW)} ${formatNumber(-halfH)}) (stroke (width 0.254) (type default) (color 0 0 0 0)) (fill (type background)))`,
+    '    )',
+    `    (symbol "${name}_1_1"`,
+    ...pinLines.map(line => `      ${line}`),
+    '    )',
+    '  )',
+    ')',
+    ''
+  ].join('\n')
+}
+
+/**
+ * 按符号上的位置对引脚分组
+ * @returns top: 电源引脚；bottom: 地引脚；groups: 系统引脚、各外设、各端口 (其余 GPIO)
+ */
+export function groupSymbolPins(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+): { top: KicadSymbolPin[]; bottom: KicadSymbolPin[]; groups: KicadPinGroup[] } {
+  const top: KicadSymbolPin[] = []
+  const bottom: KicadSymbolPin[] = []
+  const system: KicadSymbolPin[] = []
+  const peripherals = new Map<string, Array<{ signal: string; pin: KicadSymbolPin }>>()
+  const ports = new Map<string, KicadSymbolPin[]>()
+
+  const pins = [...chip.package.pins].sort((a, b) => a.number - b.number)
+  for (const physical of pins) {
+    const cap = chip.pins[physical.name]
+    const config = configurations[physical.name]
+    const label = annotations[physical.name]?.label || ''
+    const number = getPadNumber(chip, physical)
+
+    // 固定功能引脚
+    if (cap?.fixed) {
+      const pin: KicadSymbolPin = { number, name: label ? `${physical.name}/${label}` : physical.name, type: getFixedPinType(cap.type) }
+      if (cap.type === 'power') top.push(pin)
+      else if (cap.type === 'gnd') bottom.push(pin)
+      else system.push(pin)
+      continue
+    }
+
+    // 已配置外设功能：按外设分组
+    if (config?.function && config.function !== 'GPIO') {
+      const context = findFunctionContext(chip, config.function, physical.name)
+      const periph = context?.periphName || 'Other'
+      const func = context ? stripPinmapSuffix(config.function, context.mapIndex) : config.function
+      const pin: KicadSymbolPin = { number, name: `${physical.name}/${label || func}`, type: getGpioPinType(config) }
+      peripherals.set(periph, [...(peripherals.get(periph) || []), { signal: context?.signalName || config.function, pin }])
+      continue
+    }
+
+    // GPIO 或未配置：按端口分组
+    const port = physical.name.match(/^P([A-Z])\d+$/)?.[1]
+    const key = port ? `P${port}` : 'Other'
+    const pin: KicadSymbolPin = {
+      number,
+      name: label ? `${physical.name}/${label}` : physical.name,
+      type: config ? getGpioPinType(config) : 'bidirectional'
+    }
+    ports.set(key, [...(ports.get(key) || []), pin])
+  }
+
+  const groups: KicadPinGroup[] = []
+  if (system.length > 0) groups.push({ title: 'System', pins: system })
+  for (const [title, entries] of [...peripherals.entries()].sort(([a], [b]) => compareNames(a, b))) {
+    entries.sort((a, b) => compareNames(a.signal, b.signal))
+    groups.push({ title, pins: entries.map(entry => entry.pin) })
+  }
+  for (const [title, portPins] of [...ports.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    portPins.sort((a, b) => compareNames(a.name, b.name))
+    groups.push({ title, pins: portPins })
+  }
+
+  return { top, bottom, groups }
+}
+
+/**
+ * 固定功能引脚的电气类型
+ */
+export function getFixedPinType(type: string): KicadPinType {
+  switch (type) {
+    case 'power':
+    case 'gnd':
+      return 'power_in'
+    case 'reset':
+    case 'boot':
+      return 'input'
+    case 'nc':
+      return 'no_connect'
+    default:
+      return 'passive' // clock (晶振) / special
+  }
+}
+
+/**
+ * 可复用引脚按配置的模式确定电气类型
+ */
+export function getGpioPinType(config: PinConfig): KicadPinType {
+  switch (config.mode) {
+    case 'input':
+      return 'input'
+    case 'output':
+    case 'alternate':
+      return config.drive === 'open-drain' ? 'open_collector' : 'output'
+    default:
+      return 'passive' // analog
+  }
+}
+
+// 封装焊盘编号：网格封装用焊球位置；散热焊盘 (编号 0) 为 pinCount + 1
+function getPadNumber(chip: ChipDefinition, pin: PhysicalPin): string {
+  if (pin.ball) return pin.ball.toUpperCase()
+  if (pin.row && pin.col) return `${formatGridRow(pin.row)}${pin.col}`
+  if (pin.number === 0) return String(chip.package.pinCount + 1)
+  return String(pin.number)
+}
+
+function formatPin(pin: KicadSymbolPin, x: number, y: number, angle: number): string {
+  const font = `(effects (font (size ${FONT_SIZE} ${FONT_SIZE})))`
+  return `(pin ${pin.type} line (at ${formatNumber(x)} ${formatNumber(y)} ${angle}) (length ${PIN_LENGTH}) (name "${escapeString(pin.name)}" ${font}) (number "${escapeString(pin.number)}" ${font}))`
+}
+
+function formatProperty(key: string, value: string, id: number, x: number, y: number, hidden = false): string {
+  const justify = hidden ? '' : ' (justify left)'
+  return `(property "${key}" "${escapeString(value)}" (id ${id}) (at ${formatNumber(x)} ${formatNumber(y)} 0) (effects (font (size ${FONT_SIZE} ${FONT_SIZE}))${justify}${hidden ? ' hide' : ''}))`
+}
+
+// KiCad 符号名中不能包含 ':' 和 '/'
+function sanitizeSymbolName(name: string): string {
+  return escapeString(name.replace(/[:/\s]/g, '_'))
+}
+
+function escapeString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+}
+
+function snapUp(value: number, step = GRID): number {
+  return Math.ceil(value / step - 1e-9) * step
+}
@@ -0,0 +1,77 @@
+/**
+ * 本地芯片：用户自行加载的芯片 JSON 保存在浏览器的 IndexedDB 中，
+ * 不需要放进仓库也能在编辑器中使用 (如定制或未发布的型号)
+ */
+
+const DB_NAME = 'pinmuxlab'
+const DB_VERSION = 1
+const STORE_NAME = 'localChips'
+
+/**
+ * IndexedDB 中保存的本地芯片
+ */
+export interface LocalChipRecord {
+  /** 芯片目录中的路径，见 getLocalChipPath */
+  path: string
+  /** 原始芯片 JSON */
+  data: unknown
+  /** 加载时的文件名 */
+  fileName: string
+  updatedAt: number
+}
+
+/**
+ * 本地芯片在芯片目录中的路径，同一厂商、型号和封装只保存一份，再次加载时覆盖
+ */
+export function getLocalChipPath(vendor: string, name: string, packageName: string): string {
+  return `local/${vendor}/${name}/${packageName}`
+}
+
+export function isLocalChipPath(path: string): boolean {
+  return path.startsWith('local/')
+}
+
+export async function listLocalChips(): Promise<LocalChipRecord[]> {
+  const db = await openDatabase()
+  try {
+    return await toPromise(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll() as IDBRequest<LocalChipRecord[]>)
+  } finally {
+    db.close()
+  }
+}
+
+export async function saveLocalChip(record: LocalChipRecord): Promise<void> {
+  const db = await openDatabase()
+  try {
+    await toPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(record))
+  } finally {
+    db.close()
+  }
+}
+
+export async function deleteLocalChip(path: string): Promise<void> {
+  const db = await openDatabase()
+  try {
+    await toPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(path))
+  } finally {
+    db.close()
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'))
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'path' })
+  }
+  return toPromise(request)
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
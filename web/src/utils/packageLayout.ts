@@ -1,4 +1,4 @@
-import type { PackageInfo, PhysicalPin } from '@/types/chip'
+import type { PackageInfo, PhysicalPin, QuadSides } from '@/types/chip'
 
 /**
  * 渲染用的引脚对象 (包含坐标信息)
@@ -32,6 +32,19 @@ export interface PackageLayout {
     height: number
   }
   pins: RenderedPin[]
+  /** 布局方式：四边、双列或球栅网格 */
+  kind: 'quad' | 'dual' | 'grid'
+  /** 芯片信息 (厂商/型号/封装) 的中心坐标，缺省为画布中心 */
+  infoCenter?: {
+    x: number
+    y: number
+  }
+  /** 网格封装的行字母 / 列号表头 */
+  gridHeaders?: Array<{
+    text: string
+    x: number
+    y: number
+  }>
   /** Pin 1 标识点坐标 */
   pin1Mark?: {
     cx: number
@@ -40,121 +53,171 @@ export interface PackageLayout {
   }
 }
 
+type QuadSide = keyof QuadSides
+
+// 顶视图下沿各方向绕芯片一周时经过的边
+const SIDE_CYCLE: Record<'ccw' | 'cw', QuadSide[]> = {
+  ccw: ['left', 'bottom', 'right', 'top'],
+  cw: ['left', 'top', 'right', 'bottom']
+}
+
+// 引脚 1 所在的角 + 编号方向 -> 第一条边
+const FIRST_SIDE: Record<'ccw' | 'cw', Record<NonNullable<PackageInfo['pin1Corner']>, QuadSide>> = {
+  ccw: { 'top-left': 'left', 'bottom-left': 'bottom', 'bottom-right': 'right', 'top-right': 'top' },
+  cw: { 'top-left': 'top', 'top-right': 'right', 'bottom-right': 'bottom', 'bottom-left': 'left' }
+}
+
 /**
  * 计算四边扁平封装 (QFN/LQFP) 的布局
- * 假设引脚逆时针排列，起始点在左上角 (Left Side Top)
  * 
- * 布局顺序：
- * 1. 左侧 (Left): 从上到下
- * 2. 下侧 (Bottom): 从左到右
- * 3. 右侧 (Right): 从下到上
- * 4. 上侧 (Top): 从右到左
+ * 引脚 1 的位置和编号方向由 pin1Corner / direction 决定，缺省为左下角、逆时针：
+ * 1. 下侧 (Bottom): 从左到右
+ * 2. 右侧 (Right): 从下到上
+ * 3. 上侧 (Top): 从右到左
+ * 4. 左侧 (Left): 从上到下
+ * 
+ * 每边引脚数由 sides 给出 (可以不相等，主体按最多的一边绘制为矩形)，缺省时平均分配。
+ * 编号为 0 的引脚是底部散热焊盘，绘制在主体中央，可以像普通引脚一样选中。
  */
 export function calculateQuadLayout(pkg: PackageInfo): PackageLayout {
   const { pinCount, pins } = pkg
+  const direction = pkg.direction || 'ccw'
+  const pin1Corner = pkg.pin1Corner || 'bottom-left'
   
   // 配置参数 (单位：无量纲 SVG 坐标)
   const PIN_WIDTH = 54 // 30 -> 40 -> 48
   const PIN_HEIGHT = 36 // 10 -> 15 -> 24
   const PIN_SPACING = 28 // 15 -> 20 -> 28
   const BODY_PADDING = 30 // 20 -> 30
+  const EXPOSED_PAD_RATIO = 0.5 // 散热焊盘缺省尺寸 (相对主体)
   // const LABEL_OFFSET = 5 // 文字距离引脚的距离 (不再需要，因为文字在框内)
-  
-  // 计算每边的引脚数 (假设均匀分布)
+
+  // 从引脚 1 所在的边开始，按编号方向排列各边
+  const cycle = SIDE_CYCLE[direction]
+  const start = cycle.indexOf(FIRST_SIDE[direction][pin1Corner])
+  const sideOrder = [...cycle.slice(start), ...cycle.slice(0, start)]
+
+  // 每边引脚数：缺省时平均分配 (最后一边可能较少)
   const pinsPerSide = Math.ceil(pinCount / 4)
+  const sides: QuadSides = pkg.sides || { left: 0, bottom: 0, right: 0, top: 0 }
+  if (!pkg.sides) {
+    sideOrder.forEach((side, index) => {
+      sides[side] = Math.max(0, Math.min(pinsPerSide, pinCount - index * pinsPerSide))
+    })
+  }
   
   // 计算芯片主体尺寸
-  // 主体边长 = 引脚数 * 间距 + padding
-  const sideLength = pinsPerSide * PIN_SPACING + BODY_PADDING * 2
+  // 主体边长 = 该方向上较多一边的引脚数 * 间距 + padding
+  const bodyWidth = Math.max(sides.top, sides.bottom, 1) * PIN_SPACING + BODY_PADDING * 2
+  const bodyHeight = Math.max(sides.left, sides.right, 1) * PIN_SPACING + BODY_PADDING * 2
   
   // 画布总尺寸
-  const totalSize = sideLength + PIN_HEIGHT * 2 + 200 // +100 -> +200 增加留白防止文字截断
-  const center = totalSize / 2
-  const bodySize = sideLength
-  const bodyStart = center - bodySize / 2
-  
+  const totalWidth = bodyWidth + PIN_HEIGHT * 2 + 200 // +100 -> +200 增加留白防止文字截断
+  const totalHeight = bodyHeight + PIN_HEIGHT * 2 + 200
+  const bodyX = (totalWidth - bodyWidth) / 2
+  const bodyY = (totalHeight - bodyHeight) / 2
+
+  // Pin 1 标识位于引脚 1 所在的角
+  const markInset = 15
   const layout: PackageLayout = {
-    width: totalSize,
-    height: totalSize,
+    width: totalWidth,
+    height: totalHeight,
     body: {
-      x: bodyStart,
-      y: bodyStart,
-      width: bodySize,
-      height: bodySize
+      x: bodyX,
+      y: bodyY,
+      width: bodyWidth,
+      height: bodyHeight
     },
-    // Pin 1 标识位于左下角
+    kind: 'quad',
     pin1Mark: {
-      cx: bodyStart + 15,
-      cy: bodyStart + bodySize - 15,
+      cx: pin1Corner.endsWith('left') ? bodyX + markInset : bodyX + bodyWidth - markInset,
+      cy: pin1Corner.startsWith('top') ? bodyY + markInset : bodyY + bodyHeight - markInset,
       r: 4
     },
     pins: []
   }
 
-  // 过滤中心焊盘（引脚编号 0，通常为 GND 散热焊盘，不参与侧边排列）
+  // 编号 0 为中心散热焊盘，其余引脚沿四边排列
   const sidePins = pins.filter(p => p.number !== 0)
+  const padPins = pins.filter(p => p.number === 0)
 
-  // 辅助函数：计算引脚坐标
-  // 引脚 1 位于底边左端，逆时针排列：
-  // 0: Bottom (Left to Right), 1: Right (Bottom to Top), 2: Top (Right to Left), 3: Left (Top to Bottom)
-  sidePins.forEach((pin, index) => {
-    const sideIndex = (Math.floor(index / pinsPerSide) + 1) % 4
-    const indexInSide = index % pinsPerSide
-    
-    let x = 0, y = 0, w = 0, h = 0
-    let lx = 0, ly = 0
-    let anchor: RenderedPin['textAnchor'] = 'middle'
-    let baseline: RenderedPin['dominantBaseline'] = 'middle'
+  // 沿编号方向，第 indexInSide 个引脚距离该边起点的距离 (引脚在边上居中分布)
+  const offsetAlong = (side: QuadSide, indexInSide: number) => {
+    const sideLength = side === 'left' || side === 'right' ? bodyHeight : bodyWidth
+    const contentLength = sides[side] * PIN_SPACING
+    return (sideLength - contentLength) / 2 + PIN_SPACING / 2 + indexInSide * PIN_SPACING
+  }
+
+  let sideIndex = 0
+  let indexInSide = 0
+  sidePins.forEach(pin => {
+    // 跳过已排满 (或引脚数为 0) 的边；超出 sides 总数的引脚留在最后一边
+    while (indexInSide >= sides[sideOrder[sideIndex]!] && sideIndex < sideOrder.length - 1) {
+      sideIndex++
+      indexInSide = 0
+    }
+    const side = sideOrder[sideIndex]!
+    const step = offsetAlong(side, indexInSide)
+    indexInSide++
 
-    // 偏移量计算：从边的一端开始
-    // 居中偏移：(主体长度 - (引脚数 * 间距)) / 2 + 半个间距
-    const contentWidth = pinsPerSide * PIN_SPACING
-    const startOffset = (bodySize - contentWidth) / 2 + PIN_SPACING / 2
-    const step = startOffset + indexInSide * PIN_SPACING
+    let x = 0, y = 0, w = 0, h = 0
 
-    switch (sideIndex) {
-      case 0: // Left Side (Top to Bottom)
+    // 逆时针：左侧从上到下、下侧从左到右、右侧从下到上、上侧从右到左；顺时针相反
+    switch (side) {
+      case 'left':
         w = PIN_HEIGHT
         h = PIN_WIDTH / 2 // 稍微窄一点
-        x = bodyStart - w
-        y = bodyStart + step - h / 2
+        x = bodyX - w
+        y = (direction === 'ccw' ? bodyY + step : bodyY + bodyHeight - step) - h / 2
         break
         
-      case 1: // Bottom Side (Left to Right)
+      case 'bottom':
         w = PIN_WIDTH / 2
         h = PIN_HEIGHT
-        x = bodyStart + step - w / 2
-        y = bodyStart + bodySize
+        x = (direction === 'ccw' ? bodyX + step : bodyX + bodyWidth - step) - w / 2
+        y = bodyY + bodyHeight
         break
         
-      case 2: // Right Side (Bottom to Top)
+      case 'right':
         w = PIN_HEIGHT
         h = PIN_WIDTH / 2
-        x = bodyStart + bodySize
-        y = (bodyStart + bodySize) - step - h / 2
+        x = bodyX + bodyWidth
+        y = (direction === 'ccw' ? bodyY + bodyHeight - step : bodyY + step) - h / 2
         break
         
-      case 3: // Top Side (Right to Left)
+      case 'top':
         w = PIN_WIDTH / 2
         h = PIN_HEIGHT
-        x = (bodyStart + bodySize) - step - w / 2
-        y = bodyStart - h
+        x = (direction === 'ccw' ? bodyX + bodyWidth - step : bodyX + step) - w / 2
+        y = bodyY - h
         break
     }
 
     // Label 统一居中显示在引脚框内
-    lx = x + w / 2
-    ly = y + h / 2
-    anchor = 'middle'
-    baseline = 'middle'
+    layout.pins.push({
+      ...pin,
+      x, y, width: w, height: h,
+      labelX: x + w / 2,
+      labelY: y + h / 2,
+      textAnchor: 'middle',
+      dominantBaseline: 'middle',
+      rotation: 0
+    })
+  })
 
+  // 散热焊盘：主体中央的矩形，名称显示在焊盘下部 (中央留给芯片信息)
+  padPins.forEach(pin => {
+    const w = bodyWidth * (pkg.exposedPad?.width || EXPOSED_PAD_RATIO)
+    const h = bodyHeight * (pkg.exposedPad?.height || EXPOSED_PAD_RATIO)
+    const x = bodyX + (bodyWidth - w) / 2
+    const y = bodyY + (bodyHeight - h) / 2
     layout.pins.push({
       ...pin,
       x, y, width: w, height: h,
-      labelX: lx,
-      labelY: ly,
-      textAnchor: anchor,
-      dominantBaseline: baseline,
+      labelX: x + w / 2,
+      labelY: y + h - 10,
+      textAnchor: 'middle',
+      dominantBaseline: 'middle',
       rotation: 0
     })
   })
@@ -204,6 +267,7 @@ export function calculateDualLayout(pkg: PackageInfo): PackageLayout {
       width: BODY_WIDTH,
       height: bodyHeight
     },
+    kind: 'dual',
     // Pin 1 标识位于左上角
     pin1Mark: {
       cx: bodyX + 15,
@@ -261,15 +325,251 @@ export function calculateDualLayout(pkg: PackageInfo): PackageLayout {
   return layout
 }
 
+// JEDEC 球位行字母：跳过易与数字混淆的 I, O, Q, S, X, Z；超过 20 行时使用双字母 (AA, AB...)
+const GRID_ROW_LETTERS = 'ABCDEFGHJKLMNPRTUVWY'
+
+/**
+ * 网格位置 (行、列均从 1 开始)
+ */
+export interface GridPosition {
+  row: number
+  col: number
+}
+
+/**
+ * 解析焊球位置，如 "A1" -> { row: 1, col: 1 }, "AA12" -> { row: 21, col: 12 }
+ * @returns 格式不正确时返回 null
+ */
+export function parseBallPosition(ball: string): GridPosition | null {
+  const match = ball.trim().toUpperCase().match(/^([A-Z]{1,2})(\d+)$/)
+  if (!match) return null
+  const letters = match[1]!
+  const col = parseInt(match[2]!, 10)
+  const indices = [...letters].map(letter => GRID_ROW_LETTERS.indexOf(letter) + 1)
+  if (col < 1 || indices.some(index => index === 0)) return null
+  const row = indices.length === 1 ? indices[0]! : indices[0]! * GRID_ROW_LETTERS.length + indices[1]!
+  return { row, col }
+}
+
+/**
+ * 将行号转换为球位行字母，如 1 -> "A", 21 -> "AA"
+ */
+export function formatGridRow(row: number): string {
+  const size = GRID_ROW_LETTERS.length
+  if (row <= size) return GRID_ROW_LETTERS[row - 1]!
+  return GRID_ROW_LETTERS[Math.floor((row - 1) / size) - 1]! + GRID_ROW_LETTERS[(row - 1) % size]!
+}
+
+/**
+ * 读取物理引脚的网格位置 (ball 优先，其次 row/col)
+ * @returns 未定义或格式不正确时返回 null
+ */
+export function getGridPosition(pin: PhysicalPin): GridPosition | null {
+  if (pin.ball !== undefined) return parseBallPosition(pin.ball)
+  if (Number.isInteger(pin.row) && Number.isInteger(pin.col) && pin.row! >= 1 && pin.col! >= 1) {
+    return { row: pin.row!, col: pin.col! }
+  }
+  return null
+}
+
+/**
+ * 引脚是否声明了网格位置 (不检查格式)
+ */
+export function hasGridPosition(pin: PhysicalPin): boolean {
+  return pin.ball !== undefined || pin.row !== undefined || pin.col !== undefined
+}
+
+/**
+ * 计算球栅阵列封装 (BGA/WLCSP) 的布局 (顶视图，A1 位于左上角)
+ * 
+ * 焊球按 ball / row+col 放在网格上，上方为列号表头，左侧为行字母表头。
+ * 如果不是所有引脚都给出了位置，则按引脚顺序逐行填满一个近似正方形的网格。
+ */
+export function calculateGridLayout(pkg: PackageInfo): PackageLayout {
+  const BALL_PITCH = 60 // 焊球间距
+  const BALL_RADIUS = 18
+  const BODY_PADDING = 20
+  const HEADER_GAP = 14 // 表头距离芯片主体的距离
+  const MARGIN = 100 // 画布留白 (表头 + 功能标签)
+  const INFO_HEIGHT = 60 // 主体下方的芯片信息区域
+
+  const gridPins = pkg.pins.filter(p => p.number !== 0)
+  const positioned = gridPins.map(pin => getGridPosition(pin))
+  const allPositioned = positioned.every(pos => pos !== null)
+  const side = Math.max(1, Math.ceil(Math.sqrt(gridPins.length)))
+  const positions: GridPosition[] = allPositioned
+    ? (positioned as GridPosition[])
+    : gridPins.map((_, index) => ({ row: Math.floor(index / side) + 1, col: (index % side) + 1 }))
+
+  const rows = Math.max(1, ...positions.map(pos => pos.row))
+  const cols = Math.max(1, ...positions.map(pos => pos.col))
+
+  const bodyWidth = cols * BALL_PITCH + BODY_PADDING * 2
+  const bodyHeight = rows * BALL_PITCH + BODY_PADDING * 2
+  const bodyX = MARGIN
+  const bodyY = MARGIN
+
+  const layout: PackageLayout = {
+    width: bodyWidth + MARGIN * 2,
+    height: bodyHeight + MARGIN * 2 + INFO_HEIGHT,
+    body: {
+      x: bodyX,
+      y: bodyY,
+      width: bodyWidth,
+      height: bodyHeight
+    },
+    kind: 'grid',
+    // 焊球占满主体，芯片信息显示在主体下方
+    infoCenter: {
+      x: bodyX + bodyWidth / 2,
+      y: bodyY + bodyHeight + INFO_HEIGHT
+    },
+    gridHeaders: [],
+    // A1 标识位于左上角
+    pin1Mark: {
+      cx: bodyX + 8,
+      cy: bodyY + 8,
+      r: 4
+    },
+    pins: []
+  }
+
+  const ballX = (col: number) => bodyX + BODY_PADDING + (col - 0.5) * BALL_PITCH
+  const ballY = (row: number) => bodyY + BODY_PADDING + (row - 0.5) * BALL_PITCH
+
+  for (let col = 1; col <= cols; col++) {
+    layout.gridHeaders!.push({ text: String(col), x: ballX(col), y: bodyY - HEADER_GAP })
+  }
+  for (let row = 1; row <= rows; row++) {
+    layout.gridHeaders!.push({ text: formatGridRow(row), x: bodyX - HEADER_GAP, y: ballY(row) })
+  }
+
+  gridPins.forEach((pin, index) => {
+    const { row, col } = positions[index]!
+    const cx = ballX(col)
+    const cy = ballY(row)
+    layout.pins.push({
+      ...pin,
+      x: cx - BALL_RADIUS,
+      y: cy - BALL_RADIUS,
+      width: BALL_RADIUS * 2,
+      height: BALL_RADIUS * 2,
+      labelX: cx,
+      labelY: cy,
+      textAnchor: 'middle',
+      dominantBaseline: 'middle',
+      rotation: 0
+    })
+  })
+
+  return layout
+}
+
+/**
+ * 引脚外侧文字 (功能名 / 网络标签) 的位置
+ */
+export interface LabelPosition {
+  x: number
+  y: number
+  anchor: 'start' | 'middle' | 'end'
+  baseline: 'auto' | 'middle' | 'hanging'
+  /** 旋转角度，以 (x, y) 为中心 */
+  rotation: number
+}
+
+/**
+ * 判断引脚位于芯片主体的哪一侧 (四边 / 双列封装)
+ * @returns 散热焊盘和网格封装的焊球返回 null
+ */
+export function getPinSide(layout: PackageLayout, pin: RenderedPin): 'left' | 'right' | 'top' | 'bottom' | null {
+  if (layout.kind === 'grid' || pin.number === 0) return null
+  const body = layout.body
+  if (Math.abs((pin.x + pin.width) - body.x) < 1) return 'left'
+  if (Math.abs(pin.x - (body.x + body.width)) < 1) return 'right'
+  if (Math.abs((pin.y + pin.height) - body.y) < 1) return 'top'
+  if (Math.abs(pin.y - (body.y + body.height)) < 1) return 'bottom'
+  return null
+}
+
+/**
+ * 计算功能标签位置：显示在引脚外侧，上下两侧的文字旋转 -90 度
+ */
+export function getFunctionLabelPosition(layout: PackageLayout, pin: RenderedPin): LabelPosition {
+  const gap = 8 // 文字距离引脚的间隙
+
+  // 散热焊盘：显示在焊盘内上部 (名称在下部)
+  if (pin.number === 0) {
+    return {
+      x: pin.x + pin.width / 2,
+      y: pin.y + 10,
+      anchor: 'middle',
+      baseline: 'middle',
+      rotation: 0
+    }
+  }
+
+  // 网格封装：显示在焊球正下方
+  if (layout.kind === 'grid') {
+    return {
+      x: pin.x + pin.width / 2,
+      y: pin.y + pin.height + 3,
+      anchor: 'middle',
+      baseline: 'hanging',
+      rotation: 0
+    }
+  }
+  
+  switch (getPinSide(layout, pin)) {
+    case 'left':
+      return {
+        x: pin.x - gap,
+        y: pin.y + pin.height / 2,
+        anchor: 'end',
+        baseline: 'middle',
+        rotation: 0
+      }
+    case 'right':
+      return {
+        x: pin.x + pin.width + gap,
+        y: pin.y + pin.height / 2,
+        anchor: 'start',
+        baseline: 'middle',
+        rotation: 0
+      }
+    case 'top':
+      return {
+        x: pin.x + pin.width / 2,
+        y: pin.y - gap,
+        anchor: 'start', // Rotated -90: Text starts at (x,y) and goes UP
+        baseline: 'middle', // Centered horizontally relative to pin width
+        rotation: -90
+      }
+    case 'bottom':
+      return {
+        x: pin.x + pin.width / 2,
+        y: pin.y + pin.height + gap,
+        anchor: 'end', // Rotated -90: Text ends at (x,y) (starts below)
+        baseline: 'middle',
+        rotation: -90
+      }
+  }
+  
+  return { x: pin.x, y: pin.y, anchor: 'middle', baseline: 'middle', rotation: 0 }
+}
+
 /**
  * 通用布局计算函数
  */
 export function calculateLayout(pkg: PackageInfo): PackageLayout {
-  // 简单判断：如果类型包含 QFN, QFP, LQFP 等，使用 Quad 布局
-  // 如果包含 SOP, DIP, TSSOP 等，使用 Dual 布局
+  // 引脚带有网格位置 (ball / row+col) 或类型为 BGA/WLCSP 时使用网格布局
   const type = pkg.type.toUpperCase()
-  
-  if (type.includes('SOP') || type.includes('DIP')) {
+  if (pkg.pins.some(hasGridPosition) || type.includes('BGA') || type.includes('CSP')) {
+    return calculateGridLayout(pkg)
+  }
+
+  // 简单判断：如果类型包含 QFN, QFP, LQFP 等，使用 Quad 布局
+  // 如果包含 SOP, DIP, TSSOP 等，使用 Dual 布局 (给出 sides 时总是按四边排列)
+  if (!pkg.sides && (type.includes('SOP') || type.includes('DIP'))) {
     return calculateDualLayout(pkg)
   }
   
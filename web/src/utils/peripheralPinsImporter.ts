@@ -0,0 +1,295 @@
+import type { ChipMeta, PhysicalPin, RawChipData, RawPeripheralCategory } from '@/types/chip'
+import { findStdPeriphFamily } from '@/utils/codeGenerator'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * PeripheralPins.c 中 PinMap 数组的一项
+ */
+export interface PinMapRecord {
+  /** 数组名去掉 PinMap_ 前缀，如 UART_TX、ADC、TIM */
+  array: string
+  /** 引脚名，如 PA9 */
+  pin: string
+  /** 外设实例，如 USART1 */
+  instance: string
+  /** AFIO 重映射标志，默认映射为 AFIO_NONE */
+  afio: string
+  /** 信号名，如 TX、IN3、CH1N */
+  signal: string
+}
+
+/**
+ * 导入时需要手动填写的芯片信息 (PeripheralPins.c 和引脚表中都没有)
+ */
+export interface ImportMetaOptions {
+  name: string
+  package: string
+  vendor?: string
+  family?: string
+  core?: string
+  flash?: string
+  sram?: string
+  datasheet?: string
+}
+
+export interface ImportResult {
+  /** 嵌套格式 (分类 -> 外设 -> pinmaps) 的芯片数据，可直接交给 inferChipData */
+  chip: RawChipData
+  warnings: string[]
+}
+
+// PinMap 数组 -> 信号名 (ADC / TIM / DAC / USB 需要结合通道号或注释)
+const ARRAY_SIGNALS: Record<string, string> = {
+  UART_TX: 'TX',
+  UART_RX: 'RX',
+  UART_RTS: 'RTS',
+  UART_CTS: 'CTS',
+  SPI_MOSI: 'MOSI',
+  SPI_MISO: 'MISO',
+  SPI_SCLK: 'SCK',
+  SPI_SSEL: 'NSS',
+  I2C_SDA: 'SDA',
+  I2C_SCL: 'SCL',
+  CAN_RD: 'RX',
+  CAN_TD: 'TX',
+  DAC: 'OUT'
+}
+
+// 外设实例 -> 分类键和描述，与现有芯片数据保持一致以便对比
+const CATEGORIES: Array<{ pattern: RegExp; key: string; description: string }> = [
+  { pattern: /^U(S)?ART\d*$/, key: 'UART/USART', description: '通用异步收发器(Universal Asynchronous Receiver/Transmitter)' },
+  { pattern: /^SPI\d*$/, key: 'SPI', description: 'SPI' },
+  { pattern: /^I2C\d*$/, key: 'I2C', description: 'I2C' },
+  { pattern: /^CAN\d*$/, key: 'CAN', description: 'CAN' },
+  { pattern: /^ADC\d*$/, key: 'ADC', description: 'ADC' },
+  { pattern: /^DAC\d*$/, key: 'DAC', description: 'DAC' },
+  { pattern: /^TIM(1|8|9|10)$/, key: 'ADTM', description: '高级定时器(Advanced Digital Timer Module)' },
+  { pattern: /^TIM\d+$/, key: 'GPTM', description: '通用定时器(General-Purpose Timer Module)' },
+  { pattern: /^USB/, key: 'USB', description: 'USB Device Controller' }
+]
+
+// pinmap 内信号的排列顺序，其余信号按名称自然排序排在后面
+const SIGNAL_ORDER = ['TX', 'RX', 'CK', 'CTS', 'RTS', 'NSS', 'SCK', 'MISO', 'MOSI', 'SCL', 'SDA', 'DM', 'DP', 'OUT']
+
+/**
+ * 解析 PeripheralPins.c 中的全部 PinMap_* 数组
+ *
+ * 支持 CH_PIN_DATA(mode, cnf, pull, afio) 和 CH_PIN_DATA_EXT(mode, cnf, pull, afio, channel, inverted, ...)；
+ * 行尾注释 (如 `// TIM1_CH1N`、`// USB_DM`) 优先用于确定信号名，
+ * 其它数组 (如 PinMap_Ethernet、导出时的 PinMap_OTHER) 的信号名只能取自注释
+ */
+export function parsePeripheralPins(source: string): { records: PinMapRecord[]; warnings: string[] } {
+  const records: PinMapRecord[] = []
+  const warnings: string[] = []
+  const arrayPattern = /PinMap_(\w+)\s*\[\s*\]\s*=\s*\{([\s\S]*?)\n\s*\}\s*;/g
+
+  for (const match of source.matchAll(arrayPattern)) {
+    const array = match[1]!
+    for (const line of match[2]!.split('\n')) {
+      const entry = line.match(/\{\s*(P[A-Z]_\d+\w*|NC)\s*,\s*(\w+)\s*,\s*(CH_PIN_DATA(?:_EXT)?\s*\(([^)]*)\)|0)\s*\}/)
+      if (!entry || entry[1] === 'NC') continue
+
+      const pinMatch = entry[1]!.match(/^P([A-Z])_(\d+)$/)
+      if (!pinMatch) {
+        // 如 PA_9_ALT1：同一引脚的备用实例，pinmap 数据无法表示
+        warnings.push(`PinMap_${array}: alternate pin ${entry[1]} was skipped`)
+        continue
+      }
+      const pin = `P${pinMatch[1]}${pinMatch[2]}`
+      const args = (entry[4] || '').split(',').map(arg => arg.trim())
+      const afio = args[3] && args[3] !== '0' ? args[3] : 'AFIO_NONE'
+      const comment = line.match(/(?:\/\/|\/\*)\s*(\S[^*]*?)\s*(?:\*\/)?\s*$/)?.[1] || ''
+      // 注释形如 ETH_MII_CRS (remap 1)，去掉实例名即为信号名；
+      // 实例名只差编号时以注释为准 (导出时数据中的 ADC 写作 ADC1)
+      const word = comment.match(/^[\w-]+/)?.[0] || ''
+      const named = word.startsWith(`${entry[2]}_`)
+        ? entry[2]!
+        : word.match(new RegExp(`^(${entry[2]!.replace(/\d+$/, '')}\\d*)_`))?.[1]
+      const instance = named || entry[2]!
+      const commentSignal = named ? word.slice(named.length + 1) : ''
+
+      const signal = getSignalName(array, instance, args, comment) || commentSignal
+      if (!signal) {
+        warnings.push(`PinMap_${array}: cannot determine the signal of ${entry[1]} (${instance})`)
+        continue
+      }
+      records.push({ array, pin, instance, afio, signal })
+    }
+  }
+
+  if (records.length === 0 && warnings.length === 0) {
+    warnings.push('No PinMap_* arrays were found')
+  }
+  return { records, warnings }
+}
+
+function getSignalName(array: string, instance: string, args: string[], comment: string): string | undefined {
+  // 注释形如 TIM1_CH1N / ADC_IN3 / USB_DM，取最后一段
+  const commented = comment.match(/(?:^|_)(CH\d+N?|IN\d+|DM|DP)\b/)?.[1]
+  switch (array) {
+    case 'ADC': {
+      if (commented?.startsWith('IN')) return commented
+      const channel = parseInt(args[4] || '', 10)
+      return Number.isNaN(channel) ? undefined : `IN${channel}`
+    }
+    case 'TIM': {
+      if (commented?.startsWith('CH')) return commented
+      const channel = parseInt(args[4] || '', 10)
+      return Number.isNaN(channel) ? undefined : `CH${channel}${args[5] === '1' ? 'N' : ''}`
+    }
+    case 'USB':
+      return commented === 'DM' || commented === 'DP' ? commented : undefined
+    default:
+      return instance ? ARRAY_SIGNALS[array] : undefined
+  }
+}
+
+/**
+ * AFIO 标志 -> pinmap 排序依据 (getRemapMacros 的逆运算)
+ * AFIO_NONE 为 0，其余按 StdPeriph 重映射表中的顺序 (与芯片数据的 pinmap 顺序一致)；表中没有的标志返回 undefined
+ */
+function getRemapRank(family: string, instance: string, afio: string): number | undefined {
+  if (afio === 'AFIO_NONE') return 0
+  const macro = afio.replace(/^AFIO_/, 'GPIO_').replace(/_ENABLE$/, '')
+  const index = findStdPeriphFamily(family)?.remaps[instance]
+    ?.findIndex(mode => mode.macros.length === 1 && mode.macros[0] === macro)
+  return index === undefined || index === -1 ? undefined : index + 1
+}
+
+/**
+ * 解析引脚表 CSV：每行 `编号,引脚名[,焊球位置]`，可带表头，`#` 开头为注释
+ * 散热焊盘编号写 0 或 EP
+ */
+export function parsePinListCsv(csv: string): { pins: PhysicalPin[]; warnings: string[] } {
+  const pins: PhysicalPin[] = []
+  const warnings: string[] = []
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) return
+    const cells = trimmed.split(/[,;\t]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+    const [numberCell = '', name = '', ball = ''] = cells
+    const number = /^EP$/i.test(numberCell) ? 0 : Number(numberCell)
+    if (!Number.isInteger(number) || number < 0 || !name) {
+      // 第一行非数字视为表头
+      if (pins.length > 0 || warnings.length > 0) warnings.push(`Pin list line ${index + 1} was skipped: "${trimmed}"`)
+      return
+    }
+    pins.push(ball ? { number, name, ball: ball.toUpperCase() } : { number, name })
+  })
+
+  if (pins.length === 0) warnings.push('The pin list is empty')
+  return { pins: pins.sort((a, b) => a.number - b.number), warnings }
+}
+
+/**
+ * 由 PeripheralPins.c 和引脚表生成芯片数据 (嵌套格式)
+ *
+ * 同一外设实例的信号按 AFIO 标志分组为 pinmaps，序号按 StdPeriph 重映射表排列，表中没有的标志排在最后；
+ * 重映射的 pinmap 中未出现的信号沿用默认 pinmap 的引脚 (重映射只改变部分信号)
+ */
+export function importPeripheralPins(source: string, pinCsv: string, options: ImportMetaOptions): ImportResult {
+  const parsed = parsePeripheralPins(source)
+  const pinList = parsePinListCsv(pinCsv)
+  const warnings = [...parsed.warnings, ...pinList.warnings]
+  const family = options.family || options.name.match(/^(CH\d+[A-Z]\d{3})/)?.[1] || options.name
+
+  // 实例 -> AFIO 标志 -> 信号 -> 引脚
+  const instances = new Map<string, Map<string, Record<string, string>>>()
+  for (const record of parsed.records) {
+    const maps = instances.get(record.instance) || new Map<string, Record<string, string>>()
+    const map = maps.get(record.afio) || {}
+    if (map[record.signal] && map[record.signal] !== record.pin) {
+      warnings.push(`${record.instance}_${record.signal} has several pins for ${record.afio}; kept ${map[record.signal]}`)
+    } else {
+      map[record.signal] = record.pin
+    }
+    maps.set(record.afio, map)
+    instances.set(record.instance, maps)
+  }
+
+  const peripherals: Record<string, RawPeripheralCategory> = {}
+  for (const instance of instances.keys()) {
+    const maps = instances.get(instance)!
+    const ranks = new Map([...maps.keys()].map(afio => [afio, getRemapRank(family, instance, afio)]))
+    for (const [afio, rank] of ranks) {
+      if (rank === undefined) warnings.push(`${instance}: ${afio} is not in the ${family} remap table; its pinmap is placed last`)
+    }
+    const flags = [...maps.keys()].sort((a, b) =>
+      (ranks.get(a) ?? Infinity) - (ranks.get(b) ?? Infinity) || compareNames(a, b))
+    if (flags[0] !== 'AFIO_NONE') {
+      warnings.push(`${instance} has no default (AFIO_NONE) pinmap; the first remap is used as pinmap 0`)
+    }
+    const base = maps.get(flags[0]!)!
+    const pinmaps = flags.map((afio, index) => (index === 0 ? base : { ...base, ...maps.get(afio)! }))
+
+    const category = CATEGORIES.find(item => item.pattern.test(instance))
+    const key = category?.key || instance
+    peripherals[key] ??= { Description: category?.description || instance }
+    peripherals[key][instance] = { pinmaps }
+  }
+
+  const bonded = new Set(pinList.pins.map(pin => pin.name))
+  const unbonded = [...new Set(parsed.records.map(record => record.pin))].filter(pin => !bonded.has(pin))
+  if (pinList.pins.length > 0 && unbonded.length > 0) {
+    warnings.push(`Pins used in PinMaps but missing from the pin list: ${unbonded.sort(compareNames).join(', ')}`)
+  }
+
+  const pinCount = pinList.pins.reduce((max, pin) => Math.max(max, pin.number), 0)
+  const meta: ChipMeta = {
+    vendor: options.vendor || 'WCH',
+    family,
+    name: options.name,
+    core: options.core || 'RISC-V',
+    package: options.package,
+    ...(options.flash ? { flash: options.flash } : {}),
+    ...(options.sram ? { sram: options.sram } : {}),
+    // 必填字段，留空时校验器会提示补充
+    datasheet: options.datasheet || ''
+  }
+
+  return {
+    chip: normalizeChipData({ meta, package: { type: options.package, pinCount, pins: pinList.pins }, peripherals }),
+    warnings
+  }
+}
+
+/**
+ * 整理芯片数据的键顺序：分类和外设按名称排序，pinmap 内信号按 SIGNAL_ORDER 排序
+ * 导入结果已经是这个顺序；现有文件整理后即可与导入结果逐行对比
+ */
+export function normalizeChipData(chip: RawChipData): RawChipData {
+  const peripherals: Record<string, RawPeripheralCategory> = {}
+  for (const key of Object.keys(chip.peripherals || {}).sort(compareNames)) {
+    const category = chip.peripherals[key]!
+    const normalized: RawPeripheralCategory = { Description: category.Description ?? '' }
+    for (const instance of Object.keys(category).filter(name => name !== 'Description').sort(compareNames)) {
+      const data = category[instance] as { pinmaps?: Array<Record<string, string>> }
+      normalized[instance] = Array.isArray(data?.pinmaps) ? { ...data, pinmaps: data.pinmaps.map(sortSignals) } : data
+    }
+    peripherals[key] = normalized
+  }
+  return { ...chip, peripherals }
+}
+
+/**
+ * 按芯片数据文件的排版输出 JSON：两空格缩进，package.pins 每个引脚一行，结尾换行
+ */
+export function formatChipJson(chip: RawChipData): string {
+  const pins = chip.package.pins.map(pin => {
+    const fields = Object.entries(pin).map(([key, value]) => `${JSON.stringify(key)}: ${JSON.stringify(value)}`)
+    return `      { ${fields.join(', ')} }`
+  })
+  const placeholder = '__PINS__'
+  const text = JSON.stringify({ ...chip, package: { ...chip.package, pins: placeholder } }, null, 2)
+  return text.replace(JSON.stringify(placeholder), `[\n${pins.join(',\n')}\n    ]`) + '\n'
+}
+
+function sortSignals(map: Record<string, string>): Record<string, string> {
+  const rank = (signal: string) => {
+    const index = SIGNAL_ORDER.indexOf(signal)
+    return index === -1 ? SIGNAL_ORDER.length : index
+  }
+  const entries = Object.entries(map).sort(([a], [b]) => rank(a) - rank(b) || compareNames(a, b))
+  return Object.fromEntries(entries)
+}
@@ -0,0 +1,74 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation } from '@/types/pinmux'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 校验并清理引脚标签/备注
+ * 剔除芯片上不存在的引脚和内容为空的条目，去掉标签首尾空白
+ */
+export function normalizeAnnotations(chip: ChipDefinition, raw: unknown): Record<string, PinAnnotation> {
+  const result: Record<string, PinAnnotation> = {}
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return result
+
+  for (const [pinName, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!chip.pins[pinName] || !value || typeof value !== 'object') continue
+    const { label, note } = value as Record<string, unknown>
+    const annotation: PinAnnotation = {
+      label: typeof label === 'string' ? label.trim() : '',
+      note: typeof note === 'string' ? note : ''
+    }
+    if (!isEmptyAnnotation(annotation)) result[pinName] = annotation
+  }
+  return result
+}
+
+export function isEmptyAnnotation(annotation: PinAnnotation | undefined): boolean {
+  return !annotation || (!annotation.label && !annotation.note.trim())
+}
+
+export function isSameAnnotations(
+  a: Record<string, PinAnnotation>,
+  b: Record<string, PinAnnotation>
+): boolean {
+  const keysA = Object.keys(a)
+  if (keysA.length !== Object.keys(b).length) return false
+  return keysA.every(key => a[key]?.label === b[key]?.label && a[key]?.note === b[key]?.note)
+}
+
+/**
+ * 按引脚名、标签或备注搜索 (不区分大小写的子串匹配)
+ * @returns 匹配的引脚名，按引脚名自然排序
+ */
+export function searchAnnotations(annotations: Record<string, PinAnnotation>, query: string): string[] {
+  const needle = query.trim().toLowerCase()
+  return Object.keys(annotations)
+    .filter(pinName => {
+      if (!needle) return true
+      const { label, note } = annotations[pinName]!
+      return [pinName, label, note].some(text => text.toLowerCase().includes(needle))
+    })
+    .sort(compareNames)
+}
+
+/**
+ * 将标签转换为合法的 C 标识符，如 "LED-1" -> "LED_1"，以数字开头时加下划线
+ */
+export function toCIdentifier(label: string): string {
+  const identifier = label.replace(/[^A-Za-z0-9_]/g, '_')
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier
+}
+
+/**
+ * 将一组标签转换为互不相同的 C 标识符 (顺序与输入一致)
+ * 转换后重名的标签 (如 "LED-1" 与 "LED_1") 从第二个起加 _2、_3 后缀
+ */
+export function toUniqueCIdentifiers(labels: string[]): string[] {
+  const used = new Set<string>()
+  return labels.map(label => {
+    const base = toCIdentifier(label)
+    let identifier = base
+    for (let index = 2; used.has(identifier); index++) identifier = `${base}_${index}`
+    used.add(identifier)
+    return identifier
+  })
+}
@@ -0,0 +1,164 @@
+import type { ChipDefinition } from '@/types/chip'
+import { findFunctionContext, getSignalFunctionName, type FunctionContext } from '@/utils/pinmapUtils'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 为引脚分配功能的结果
+ */
+export interface PinAssignmentResult {
+  /** 分配后的 引脚 -> 功能 映射；功能不可用或同组信号无法切换时为 null (不做修改) */
+  functions: Record<string, string> | null
+  /** 功能所属的外设上下文 (GPIO 等非外设功能为 null) */
+  context: FunctionContext | null
+  /** 同组信号无法切换的原因，如 `RX -> PB7 (Occupied by I2C1_SDA)` */
+  conflicts: string[]
+  /** 是否有其他已分配的信号跟随切换到了同一 pinmap */
+  switched: boolean
+}
+
+/**
+ * 一组引脚配置中的冲突
+ */
+export interface ConfigurationConflict {
+  peripheral: string
+  pins: string[]
+  message: string
+}
+
+/**
+ * 为引脚分配功能 (编辑器中选择功能时的规则)
+ * 1. 同一外设信号只能在一个引脚上，分配到新引脚时清除原引脚
+ * 2. 整体重映射：外设中其他已分配的信号跟随切换到同一 pinmap，目标引脚被占用时放弃本次分配
+ * @param func 为空时清除该引脚的配置
+ */
+export function assignPinFunction(
+  chip: ChipDefinition,
+  functions: Record<string, string>,
+  pinName: string,
+  func: string
+): PinAssignmentResult {
+  const next = { ...functions }
+  if (!func) {
+    delete next[pinName]
+    return { functions: next, context: null, conflicts: [], switched: false }
+  }
+  if (!chip.pins[pinName]?.functions.includes(func)) {
+    return { functions: null, context: null, conflicts: [], switched: false }
+  }
+
+  const context = findFunctionContext(chip, func, pinName)
+  let switched = false
+  if (context) {
+    const { periphName, signalName, mapIndex, periphDef } = context
+    const isSignal = (otherFunc: string, signal: string) => {
+      const other = findFunctionContext(chip, otherFunc) // 反查时不限定引脚
+      return !!other && other.periphName === periphName && other.signalName === signal
+    }
+
+    // 1. 清除分配在其他引脚上的同一信号
+    for (const [otherPin, otherFunc] of Object.entries(next)) {
+      if (otherPin !== pinName && isSignal(otherFunc, signalName)) delete next[otherPin]
+    }
+
+    // 2. 同组信号跟随切换 (只切换当前已分配的信号)
+    const targetPinmap = periphDef.pinmaps[mapIndex]
+    if (targetPinmap) {
+      const switches: Array<{ pin: string; func: string }> = []
+      const conflicts: string[] = []
+
+      for (const [signal, targetPin] of Object.entries(targetPinmap)) {
+        if (signal === signalName) continue
+        const targetFunc = getSignalFunctionName(chip, periphName, signal, mapIndex, targetPin)
+        if (!targetFunc) continue
+        if (!Object.values(next).some(otherFunc => isSignal(otherFunc, signal))) continue
+
+        const currentOwner = next[targetPin]
+        if (!currentOwner || currentOwner === targetFunc) {
+          switches.push({ pin: targetPin, func: targetFunc })
+        } else {
+          conflicts.push(`${signal} -> ${targetPin} (Occupied by ${currentOwner})`)
+        }
+      }
+
+      if (conflicts.length > 0) {
+        return { functions: null, context, conflicts, switched: false }
+      }
+
+      // 先清除这些信号原来的引脚，再分配到新引脚
+      for (const { func: switchFunc } of switches) {
+        const switchContext = findFunctionContext(chip, switchFunc)
+        if (!switchContext) continue
+        for (const [otherPin, otherFunc] of Object.entries(next)) {
+          const other = findFunctionContext(chip, otherFunc)
+          if (other && other.periphName === switchContext.periphName && other.signalName === switchContext.signalName) {
+            delete next[otherPin]
+          }
+        }
+      }
+      switches.forEach(({ pin, func: switchFunc }) => {
+        next[pin] = switchFunc
+      })
+      switched = switches.length > 0
+    }
+  }
+
+  next[pinName] = func
+  return { functions: next, context, conflicts: [], switched }
+}
+
+/**
+ * 检查一组引脚配置中违反分配规则的地方 (如手工编辑或合并后的工程文件)
+ * - 同一外设信号分配到了多个引脚
+ * - 整体重映射的外设混用了多个 pinmap (按引脚选择 AF 的外设除外)
+ */
+export function findConfigurationConflicts(
+  chip: ChipDefinition,
+  functions: Record<string, string>
+): ConfigurationConflict[] {
+  const conflicts: ConfigurationConflict[] = []
+  // 外设 -> 信号 -> 引脚
+  const signalPins = new Map<string, Map<string, string[]>>()
+  // 外设 -> pinmap 序号 -> 引脚
+  const mapPins = new Map<string, Map<number, string[]>>()
+
+  const pins = Object.keys(functions).sort(compareNames)
+  for (const pin of pins) {
+    const context = findFunctionContext(chip, functions[pin]!, pin)
+    if (!context) continue
+    const { periphName, signalName, mapIndex } = context
+
+    const signals = signalPins.get(periphName) || new Map<string, string[]>()
+    signals.set(signalName, [...(signals.get(signalName) || []), pin])
+    signalPins.set(periphName, signals)
+
+    if (context.periphDef.pinmapStyle === 'per-pin') continue
+    const maps = mapPins.get(periphName) || new Map<number, string[]>()
+    maps.set(mapIndex, [...(maps.get(mapIndex) || []), pin])
+    mapPins.set(periphName, maps)
+  }
+
+  for (const [peripheral, signals] of signalPins) {
+    for (const [signal, assigned] of signals) {
+      if (assigned.length < 2) continue
+      conflicts.push({
+        peripheral,
+        pins: assigned,
+        message: `${peripheral} ${signal} is assigned to more than one pin: ${assigned.join(', ')}`
+      })
+    }
+  }
+
+  for (const [peripheral, maps] of mapPins) {
+    if (maps.size < 2) continue
+    const used = [...maps.entries()].sort(([a], [b]) => a - b)
+    conflicts.push({
+      peripheral,
+      pins: used.flatMap(([, assigned]) => assigned),
+      message: `${peripheral} mixes pinmaps: ${used
+        .map(([mapIndex, assigned]) => `${mapIndex === 0 ? 'default' : `remap ${mapIndex}`} (${assigned.join(', ')})`)
+        .join(', ')}`
+    })
+  }
+
+  return conflicts
+}
@@ -0,0 +1,122 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation } from '@/types/pinmux'
+import { findFunctionContext } from '@/utils/pinmapUtils'
+import { compareNames } from '@/utils/textUtils'
+
+export type SearchResultKind = 'pin' | 'number' | 'label' | 'peripheral' | 'function'
+
+/**
+ * 一条搜索结果
+ */
+export interface SearchResult {
+  kind: SearchResultKind
+  /** 匹配到的文本 (引脚名、功能名、外设名或标签) */
+  text: string
+  /** 需要高亮的引脚 (只包含封装上实际引出的引脚) */
+  pins: string[]
+  /** 关联的外设，用于展开对应的 PeripheralCard */
+  peripheral?: string
+  /** 匹配度，越大越好 */
+  score: number
+}
+
+// 同分时的排序：引脚本身优先，其次标签、外设、功能
+const KIND_ORDER: SearchResultKind[] = ['number', 'pin', 'label', 'peripheral', 'function']
+
+const MAX_RESULTS = 200
+
+/**
+ * 模糊匹配打分 (不区分大小写)
+ * 完全相同 > 前缀 > 子串 > 按顺序出现的子序列
+ * @returns 不匹配时返回 null
+ */
+export function fuzzyScore(text: string, query: string): number | null {
+  const haystack = text.toUpperCase()
+  const needle = query.toUpperCase()
+  if (!needle) return null
+  if (haystack === needle) return 100
+  if (haystack.startsWith(needle)) return 80 - Math.min(haystack.length - needle.length, 20)
+  const index = haystack.indexOf(needle)
+  if (index >= 0) return 60 - Math.min(index, 20)
+  if (needle.length < 2) return null
+
+  // 子序列：每跳过一个字符扣一分
+  let position = 0
+  let gaps = 0
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position)
+    if (found < 0) return null
+    gaps += found - position
+    position = found + 1
+  }
+  const score = 40 - gaps
+  return score > 0 ? score : null
+}
+
+/**
+ * 在引脚名、物理编号 (`#30`)、功能名、外设名和用户标签中搜索
+ */
+export function searchChip(
+  chip: ChipDefinition,
+  annotations: Record<string, PinAnnotation>,
+  query: string
+): SearchResult[] {
+  const text = query.trim()
+  if (!text) return []
+
+  const results: SearchResult[] = []
+  const bonded = new Set(chip.package.pins.map(pin => pin.name))
+
+  // 物理编号：`#30` 或纯数字
+  const numberMatch = text.match(/^#?(\d+)$/)
+  if (numberMatch) {
+    const number = parseInt(numberMatch[1]!, 10)
+    const pin = chip.package.pins.find(p => p.number === number)
+    if (pin) results.push({ kind: 'number', text: `#${number} ${pin.name}`, pins: [pin.name], score: 100 })
+    if (text.startsWith('#')) return results
+  }
+
+  // 引脚名 (电源等同名引脚合并为一条)
+  for (const name of bonded) {
+    const score = fuzzyScore(name, text)
+    if (score !== null) results.push({ kind: 'pin', text: name, pins: [name], score })
+  }
+
+  // 用户标签
+  for (const [pin, annotation] of Object.entries(annotations)) {
+    if (!annotation.label || !bonded.has(pin)) continue
+    const score = fuzzyScore(annotation.label, text)
+    if (score !== null) results.push({ kind: 'label', text: `${annotation.label} (${pin})`, pins: [pin], score })
+  }
+
+  // 外设：高亮所有 pinmap 中引出的引脚
+  for (const [name, def] of Object.entries(chip.peripherals || {})) {
+    const score = fuzzyScore(name, text)
+    if (score === null) continue
+    const pins = new Set<string>()
+    for (const map of def.pinmaps || []) {
+      Object.values(map || {}).forEach(pin => bonded.has(pin) && pins.add(pin))
+    }
+    if (pins.size === 0) continue
+    results.push({ kind: 'peripheral', text: name, pins: [...pins].sort(compareNames), peripheral: name, score })
+  }
+
+  // 功能名：每个 引脚 + 功能 一条
+  for (const pin of bonded) {
+    for (const func of chip.pins[pin]?.functions || []) {
+      if (func === 'GPIO' || func === pin) continue
+      const score = fuzzyScore(func, text)
+      if (score === null) continue
+      const context = findFunctionContext(chip, func, pin)
+      results.push({ kind: 'function', text: `${func} (${pin})`, pins: [pin], peripheral: context?.periphName, score })
+    }
+  }
+
+  return results
+    .sort((a, b) =>
+      b.score - a.score ||
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      compareNames(a.text, b.text)
+    )
+    .slice(0, MAX_RESULTS)
+}
@@ -0,0 +1,141 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinConfig, PinDrive, PinLevel, PinMode, PinPull, PinSpeed } from '@/types/pinmux'
+import { findFunctionContext } from '@/utils/pinmapUtils'
+
+export const PIN_MODES: PinMode[] = ['input', 'output', 'alternate', 'analog']
+export const PIN_DRIVES: PinDrive[] = ['push-pull', 'open-drain']
+export const PIN_PULLS: PinPull[] = ['none', 'up', 'down']
+export const PIN_SPEEDS: PinSpeed[] = ['low', 'medium', 'high']
+export const PIN_LEVELS: PinLevel[] = ['low', 'high']
+
+/**
+ * 根据功能推断引脚的默认电气配置
+ * 参考 WCH EVT 例程的常用配置：
+ * - ADC/OPA/DAC 等模拟功能为 analog
+ * - I2C 为复用开漏
+ * - 串口 RX、SPI MISO 等输入信号为浮空输入，CAN RX 为上拉输入
+ * - 其余外设信号为复用推挽，普通 GPIO 为推挽输出
+ */
+export function getDefaultPinConfig(chip: ChipDefinition, pinName: string, func: string): PinConfig {
+  const config: PinConfig = {
+    function: func,
+    mode: 'alternate',
+    drive: 'push-pull',
+    pull: 'none',
+    speed: 'high',
+    initialState: 'low'
+  }
+
+  const context = findFunctionContext(chip, func, pinName)
+  if (!context) {
+    config.mode = 'output' // 普通 GPIO
+    return config
+  }
+
+  const type = context.periphDef.type
+  const signal = context.signalName.toUpperCase()
+
+  if (['adc', 'opa', 'comparator', 'dac', 'touchkey'].includes(type)) {
+    config.mode = 'analog'
+  } else if (type === 'i2c') {
+    config.drive = 'open-drain'
+  } else if (type === 'can' && signal === 'RX') {
+    config.mode = 'input'
+    config.pull = 'up'
+  } else if (
+    (type === 'uart' && (signal === 'RX' || signal === 'CTS')) ||
+    (type === 'spi' && signal === 'MISO') ||
+    (type === 'timer' && (signal === 'ETR' || signal === 'BKIN')) ||
+    (type === 'eth' && signal.includes('RX'))
+  ) {
+    config.mode = 'input'
+  }
+  return config
+}
+
+/**
+ * 将存储或工程文件中的值转换为完整的引脚配置
+ * - 旧格式：值为功能名称字符串，使用默认电气配置
+ * - 新格式：缺失或非法的字段回落到默认值
+ * @returns 无法识别的值返回 null
+ */
+export function normalizePinConfig(chip: ChipDefinition, pinName: string, value: unknown): PinConfig | null {
+  if (typeof value === 'string') {
+    return value ? getDefaultPinConfig(chip, pinName, value) : null
+  }
+  if (!value || typeof value !== 'object') return null
+
+  const raw = value as Record<string, unknown>
+  if (typeof raw.function !== 'string' || !raw.function) return null
+
+  const defaults = getDefaultPinConfig(chip, pinName, raw.function)
+  return {
+    function: raw.function,
+    mode: pickOption(raw.mode, PIN_MODES, defaults.mode),
+    drive: pickOption(raw.drive, PIN_DRIVES, defaults.drive),
+    pull: pickOption(raw.pull, PIN_PULLS, defaults.pull),
+    speed: pickOption(raw.speed, PIN_SPEEDS, defaults.speed),
+    initialState: pickOption(raw.initialState, PIN_LEVELS, defaults.initialState)
+  }
+}
+
+function pickOption<T extends string>(value: unknown, options: T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback
+}
+
+export function isSamePinConfig(a: PinConfig | undefined, b: PinConfig | undefined): boolean {
+  if (!a || !b) return a === b
+  return a.function === b.function &&
+    a.mode === b.mode &&
+    a.drive === b.drive &&
+    a.pull === b.pull &&
+    a.speed === b.speed &&
+    a.initialState === b.initialState
+}
+
+/**
+ * 提取 引脚 -> 功能名称 映射
+ */
+export function toFunctionMap(configurations: Record<string, PinConfig>): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const [pin, config] of Object.entries(configurations)) {
+    result[pin] = config.function
+  }
+  return result
+}
+
+/**
+ * 被校验剔除的配置项
+ */
+export interface DroppedAssignment {
+  pin: string
+  function: string
+  reason: string
+}
+
+/**
+ * 校验一组引脚配置在芯片定义中是否仍然有效，并迁移旧格式
+ * 无效项 (引脚不存在、功能不再可用、值无法识别) 会被剔除并记录原因
+ */
+export function validateConfigurations(
+  chip: ChipDefinition,
+  raw: unknown
+): { valid: Record<string, PinConfig>; dropped: DroppedAssignment[] } {
+  const valid: Record<string, PinConfig> = {}
+  const dropped: DroppedAssignment[] = []
+  if (!raw || typeof raw !== 'object') return { valid, dropped }
+
+  for (const [pinName, value] of Object.entries(raw as Record<string, unknown>)) {
+    const config = normalizePinConfig(chip, pinName, value)
+    if (!config) {
+      dropped.push({ pin: pinName, function: JSON.stringify(value) ?? String(value), reason: 'invalid value' })
+    } else if (!chip.pins[pinName]) {
+      dropped.push({ pin: pinName, function: config.function, reason: 'pin does not exist' })
+    } else if (!chip.pins[pinName].functions.includes(config.function)) {
+      dropped.push({ pin: pinName, function: config.function, reason: 'function no longer available' })
+    } else {
+      valid[pinName] = config
+    }
+  }
+  return { valid, dropped }
+}
@@ -0,0 +1,83 @@
+import type { ChipDefinition, PeripheralDefinition } from '@/types/chip'
+
+/**
+ * 功能名称所属的外设上下文
+ */
+export interface FunctionContext {
+  periphName: string
+  signalName: string
+  mapIndex: number
+  periphDef: PeripheralDefinition
+}
+
+/**
+ * 获取 pinmap 序号对应的功能名后缀
+ * 默认映射 (index 0) 无后缀，重映射为 `_1`, `_2` ...
+ */
+export function getPinmapSuffix(mapIndex: number): string {
+  return mapIndex === 0 ? '' : `_${mapIndex}`
+}
+
+/**
+ * 去掉功能名称的 pinmap 后缀，如 CAN1_RX_1 -> CAN1_RX
+ */
+export function stripPinmapSuffix(funcName: string, mapIndex: number): string {
+  const suffix = getPinmapSuffix(mapIndex)
+  return suffix && funcName.endsWith(suffix) ? funcName.slice(0, -suffix.length) : funcName
+}
+
+/**
+ * 查找某个外设信号在指定引脚上对应的功能名称
+ * 推断器会生成 `USART1_TX_1` 或 `TX_1` (无子外设名时) 两种形式，两者都尝试
+ * @returns 引脚不支持该信号时返回 undefined
+ */
+export function getSignalFunctionName(
+  chip: ChipDefinition,
+  periphName: string,
+  signalName: string,
+  mapIndex: number,
+  pinName: string
+): string | undefined {
+  const functions = chip.pins[pinName]?.functions || []
+  const suffix = getPinmapSuffix(mapIndex)
+
+  const composite = `${periphName}_${signalName}${suffix}`
+  if (functions.includes(composite)) return composite
+
+  const direct = `${signalName}${suffix}`
+  if (functions.includes(direct)) return direct
+
+  return undefined
+}
+
+/**
+ * 根据功能名称反查所属的外设、信号和 pinmap 序号
+ * @param pinName 提供时只匹配映射到该引脚的信号
+ */
+export function findFunctionContext(
+  chip: ChipDefinition,
+  funcName: string,
+  pinName?: string
+): FunctionContext | null {
+  if (!chip.peripherals) return null
+
+  for (const [periphName, def] of Object.entries(chip.peripherals)) {
+    if (!def.pinmaps) continue
+
+    for (let mapIndex = 0; mapIndex < def.pinmaps.length; mapIndex++) {
+      const map = def.pinmaps[mapIndex]
+      if (!map) continue
+      const suffix = getPinmapSuffix(mapIndex)
+
+      for (const [signalName, mapPin] of Object.entries(map)) {
+        if (pinName && mapPin !== pinName) continue
+
+        // Pattern 1: Periph_Signal + Suffix, Pattern 2: Signal + Suffix (Short name)
+        if (funcName === `${periphName}_${signalName}${suffix}` || funcName === `${signalName}${suffix}`) {
+          return { periphName, signalName, mapIndex, periphDef: def }
+        }
+      }
+    }
+  }
+  return null
+}
@@ -0,0 +1,331 @@
+import type { ChipDefinition, ChipMeta } from '@/types/chip'
+import type { PinAnnotation, PinConfig } from '@/types/pinmux'
+import { PERIPHERAL_TYPE_LABELS } from '@/config/pinConfig'
+import { findFunctionContext } from '@/utils/pinmapUtils'
+import { compareNames, escapeXml } from '@/utils/textUtils'
+
+/**
+ * 外设表中的一行：一个已配置的信号
+ */
+export interface ReportSignalRow {
+  signal: string
+  pin: string
+  numbers: number[]
+  /** pinmap 序号，0 为默认映射 */
+  mapIndex: number
+  function: string
+  config: PinConfig
+  label: string
+  note: string
+}
+
+export interface ReportPeripheral {
+  name: string
+  /** 外设类型的显示名称，如 "UART" */
+  type: string
+  rows: ReportSignalRow[]
+}
+
+/**
+ * 端口 GPIO 表中的一行 (包括未使用的引脚)
+ */
+export interface ReportGpioRow {
+  pin: string
+  numbers: number[]
+  /** 未配置时为 undefined */
+  config?: PinConfig
+  label: string
+  note: string
+}
+
+export interface ReportFixedPin {
+  name: string
+  type: string
+  numbers: number[]
+  label: string
+}
+
+/**
+ * 引脚报告的数据 (与输出格式无关)
+ */
+export interface PinoutReport {
+  meta: ChipMeta
+  packageType: string
+  pinCount: number
+  configuredCount: number
+  peripherals: ReportPeripheral[]
+  ports: Array<{ port: string; rows: ReportGpioRow[] }>
+  unusedPins: Array<{ pin: string; numbers: number[] }>
+  fixedPins: ReportFixedPin[]
+}
+
+// 固定功能引脚的排列顺序
+const FIXED_TYPE_ORDER = ['power', 'gnd', 'reset', 'boot', 'clock', 'special', 'nc']
+
+/**
+ * 汇总引脚报告：外设信号、按端口的 GPIO、未使用的引脚和固定功能引脚
+ * 只包含封装上实际引出的引脚
+ */
+export function buildPinoutReport(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+): PinoutReport {
+  // 引脚名 -> 物理编号 (电源等同名引脚有多个编号)
+  const numbersByName = new Map<string, number[]>()
+  for (const pin of chip.package.pins) {
+    numbersByName.set(pin.name, [...(numbersByName.get(pin.name) || []), pin.number].sort((a, b) => a - b))
+  }
+  const numbersOf = (pin: string) => numbersByName.get(pin) || []
+  const labelOf = (pin: string) => annotations[pin]?.label || ''
+  const noteOf = (pin: string) => annotations[pin]?.note || ''
+
+  // 1. 外设信号 (GPIO 在端口表中列出)
+  const peripherals = new Map<string, ReportPeripheral>()
+  for (const [pin, config] of Object.entries(configurations)) {
+    if (!numbersByName.has(pin) || !config.function || config.function === 'GPIO') continue
+    const context = findFunctionContext(chip, config.function, pin)
+    const name = context?.periphName || 'Other'
+    const entry = peripherals.get(name) || {
+      name,
+      type: context ? PERIPHERAL_TYPE_LABELS[context.periphDef.type] || context.periphDef.type : '',
+      rows: []
+    }
+    entry.rows.push({
+      signal: context?.signalName || config.function,
+      pin,
+      numbers: numbersOf(pin),
+      mapIndex: context?.mapIndex ?? 0,
+      function: config.function,
+      config,
+      label: labelOf(pin),
+      note: noteOf(pin)
+    })
+    peripherals.set(name, entry)
+  }
+  for (const entry of peripherals.values()) {
+    entry.rows.sort((a, b) => compareNames(a.signal, b.signal) || compareNames(a.pin, b.pin))
+  }
+
+  // 2. 按端口列出 GPIO 引脚
+  const bondedGpio = [...numbersByName.keys()]
+    .filter(pin => chip.pins[pin]?.type === 'gpio' && numbersOf(pin).some(number => number !== 0))
+    .sort(compareNames)
+  const portMap = new Map<string, ReportGpioRow[]>()
+  for (const pin of bondedGpio) {
+    const port = pin.match(/^P([A-Z])\d+$/)?.[1]
+    const key = port ? `P${port}` : 'Other'
+    portMap.set(key, [
+      ...(portMap.get(key) || []),
+      { pin, numbers: numbersOf(pin), config: configurations[pin], label: labelOf(pin), note: noteOf(pin) }
+    ])
+  }
+
+  // 3. 固定功能引脚 (按类型，再按编号)
+  const fixedPins = [...numbersByName.keys()]
+    .filter(pin => chip.pins[pin]?.fixed)
+    .map(pin => ({ name: pin, type: chip.pins[pin]!.type, numbers: numbersOf(pin), label: labelOf(pin) }))
+    .sort((a, b) => fixedTypeRank(a.type) - fixedTypeRank(b.type) || a.numbers[0]! - b.numbers[0]!)
+
+  return {
+    meta: chip.meta,
+    packageType: chip.package.type,
+    pinCount: chip.package.pinCount,
+    configuredCount: Object.keys(configurations).filter(pin => numbersByName.has(pin)).length,
+    peripherals: [...peripherals.values()].sort((a, b) => compareNames(a.name, b.name)),
+    ports: [...portMap.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([port, rows]) => ({ port, rows })),
+    unusedPins: bondedGpio.filter(pin => !configurations[pin]).map(pin => ({ pin, numbers: numbersOf(pin) })),
+    fixedPins
+  }
+}
+
+/**
+ * 生成 Markdown 报告，封装图以 data URI 图片嵌入
+ * @param diagramSvg 封装图 (renderPackageDiagram 的输出)，省略时不嵌入
+ */
+export function renderReportMarkdown(report: PinoutReport, diagramSvg?: string): string {
+  const lines: string[] = []
+  const { meta } = report
+
+  lines.push(`# ${meta.name} Pinout`, '')
+  lines.push(...markdownTable(['Property', 'Value'], summaryRows(report)), '')
+
+  if (diagramSvg) {
+    lines.push('## Package Diagram', '', `![${meta.name} package diagram](data:image/svg+xml;base64,${toBase64(diagramSvg)})`, '')
+  }
+
+  lines.push('## Peripherals', '')
+  if (report.peripherals.length === 0) lines.push('_No peripheral signals are assigned._', '')
+  for (const periph of report.peripherals) {
+    lines.push(`### ${periph.name}${periph.type ? ` (${periph.type})` : ''}`, '')
+    lines.push(...markdownTable(SIGNAL_HEADERS, periph.rows.map(signalCells)), '')
+  }
+
+  lines.push('## GPIO by Port', '')
+  for (const { port, rows } of report.ports) {
+    lines.push(`### ${port}`, '')
+    lines.push(...markdownTable(GPIO_HEADERS, rows.map(gpioCells)), '')
+  }
+
+  lines.push('## Unused Pins', '')
+  lines.push(
+    report.unusedPins.length > 0
+      ? report.unusedPins.map(({ pin, numbers }) => `${pin} (${formatNumbers(numbers)})`).join(', ')
+      : '_All GPIO pins are in use._',
+    ''
+  )
+
+  lines.push('## Fixed-Function Pins', '')
+  lines.push(...markdownTable(FIXED_HEADERS, report.fixedPins.map(fixedCells)), '')
+
+  return lines.join('\n')
+}
+
+/**
+ * 生成独立的 HTML 报告 (内联样式，封装图以内联 SVG 嵌入)
+ * @param diagramSvg 封装图 (renderPackageDiagram 的输出)，省略时不嵌入
+ */
+export function renderReportHtml(report: PinoutReport, diagramSvg?: string): string {
+  const { meta } = report
+  const body: string[] = []
+
+  body.push(`<h1>${escapeXml(meta.name)} Pinout</h1>`)
+  body.push(htmlTable(['Property', 'Value'], summaryRows(report)))
+
+  if (diagramSvg) {
+    body.push('<h2>Package Diagram</h2>', `<div class="diagram">${diagramSvg}</div>`)
+  }
+
+  body.push('<h2>Peripherals</h2>')
+  if (report.peripherals.length === 0) body.push('<p class="empty">No peripheral signals are assigned.</p>')
+  for (const periph of report.peripherals) {
+    body.push(`<h3>${escapeXml(periph.name)}${periph.type ? ` <small>${escapeXml(periph.type)}</small>` : ''}</h3>`)
+    body.push(htmlTable(SIGNAL_HEADERS, periph.rows.map(signalCells)))
+  }
+
+  body.push('<h2>GPIO by Port</h2>')
+  for (const { port, rows } of report.ports) {
+    body.push(`<h3>${escapeXml(port)}</h3>`)
+    body.push(htmlTable(GPIO_HEADERS, rows.map(gpioCells)))
+  }
+
+  body.push('<h2>Unused Pins</h2>')
+  body.push(
+    report.unusedPins.length > 0
+      ? `<p>${report.unusedPins.map(({ pin, numbers }) => `${escapeXml(pin)} (${formatNumbers(numbers)})`).join(', ')}</p>`
+      : '<p class="empty">All GPIO pins are in use.</p>'
+  )
+
+  body.push('<h2>Fixed-Function Pins</h2>')
+  body.push(htmlTable(FIXED_HEADERS, report.fixedPins.map(fixedCells)))
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(meta.name)} Pinout</title>
+<style>
+  body { font-family: sans-serif; font-size: 14px; color: #222; max-width: 1000px; margin: 2em auto; padding: 0 1em; }
+  h1 { border-bottom: 2px solid #ccc; padding-bottom: 0.3em; }
+  h2 { margin-top: 2em; border-bottom: 1px solid #ddd; padding-bottom: 0.2em; }
+  h3 small { color: #888; font-weight: normal; }
+  table { border-collapse: collapse; margin: 0.5em 0 1em; }
+  th, td { border: 1px solid #ddd; padding: 4px 10px; text-align: left; }
+  th { background: #f5f5f5; }
+  td { font-family: monospace; }
+  .diagram svg { max-width: 100%; height: auto; border: 1px solid #ddd; }
+  .empty { color: #888; font-style: italic; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`
+}
+
+const SIGNAL_HEADERS = ['Signal', 'Pin', 'No.', 'Pinmap', 'Function', 'Mode', 'Label', 'Note']
+const GPIO_HEADERS = ['Pin', 'No.', 'Function', 'Mode', 'Label', 'Note']
+const FIXED_HEADERS = ['Pin', 'Type', 'No.', 'Label']
+
+function summaryRows(report: PinoutReport): string[][] {
+  const { meta } = report
+  return [
+    ['Vendor', meta.vendor],
+    ['Family', meta.family],
+    ['Part', meta.name],
+    ['Core', meta.core],
+    ['Package', `${report.packageType} (${report.pinCount} pins)`],
+    ['Flash', meta.flash || '—'],
+    ['SRAM', meta.sram || '—'],
+    ['Datasheet', meta.datasheet || '—'],
+    ['Configured pins', String(report.configuredCount)]
+  ]
+}
+
+function signalCells(row: ReportSignalRow): string[] {
+  return [
+    row.signal,
+    row.pin,
+    formatNumbers(row.numbers),
+    row.mapIndex === 0 ? 'default' : `remap ${row.mapIndex}`,
+    row.function,
+    formatMode(row.config),
+    row.label,
+    row.note
+  ]
+}
+
+function gpioCells(row: ReportGpioRow): string[] {
+  return [row.pin, formatNumbers(row.numbers), row.config?.function || '—', row.config ? formatMode(row.config) : '', row.label, row.note]
+}
+
+function fixedCells(pin: ReportFixedPin): string[] {
+  return [pin.name, pin.type, formatNumbers(pin.numbers), pin.label]
+}
+
+// 模式摘要，只列出对该模式有意义的属性
+function formatMode(config: PinConfig): string {
+  switch (config.mode) {
+    case 'input':
+      return config.pull === 'none' ? 'input, floating' : `input, pull-${config.pull}`
+    case 'output':
+      return `output, ${config.drive}, ${config.speed}, init ${config.initialState}`
+    case 'alternate':
+      return `alternate, ${config.drive}, ${config.speed}`
+    default:
+      return config.mode
+  }
+}
+
+function formatNumbers(numbers: number[]): string {
+  return numbers.map(number => (number === 0 ? 'EP' : String(number))).join(', ')
+}
+
+function fixedTypeRank(type: string): number {
+  const index = FIXED_TYPE_ORDER.indexOf(type)
+  return index < 0 ? FIXED_TYPE_ORDER.length : index
+}
+
+function markdownTable(headers: string[], rows: string[][]): string[] {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+  ]
+}
+
+function htmlTable(headers: string[], rows: string[][]): string {
+  const head = headers.map(header => `<th>${escapeXml(header)}</th>`).join('')
+  const bodyRows = rows.map(row => `<tr>${row.map(text => `<td>${escapeXml(text)}</td>`).join('')}</tr>`)
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${bodyRows.join('\n')}\n</tbody>\n</table>`
+}
+
+function toBase64(text: string): string {
+  let binary = ''
+  new TextEncoder().encode(text).forEach(byte => (binary += String.fromCharCode(byte)))
+  return btoa(binary)
+}
@@ -0,0 +1,149 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation, PinConfig, PinMuxProject } from '@/types/pinmux'
+import { compareNames } from '@/utils/textUtils'
+
+export const PROJECT_FORMAT = 'pinmuxlab-project'
+// v1: assignments 的值为功能名称；v2: 值为包含电气设置的 PinConfig
+export const PROJECT_VERSION = 2
+export const PROJECT_FILE_EXTENSION = '.pinmux.json'
+
+/**
+ * 计算芯片定义的哈希 (FNV-1a 32 位，基于键排序后的 JSON)
+ * 仅用于检测数据变化，不用于安全用途
+ */
+export function hashChipDefinition(chip: ChipDefinition): string {
+  const text = stableStringify(chip)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+// 对象键排序后序列化，保证同一数据得到同一字符串
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * 根据当前芯片和配置创建工程对象
+ */
+export function createProject(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+): PinMuxProject {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    chip: {
+      vendor: chip.meta.vendor,
+      family: chip.meta.family,
+      name: chip.meta.name,
+      package: chip.meta.package,
+      hash: hashChipDefinition(chip)
+    },
+    // 按引脚名排序，便于在 git 中 diff
+    assignments: sortByPinName(configurations),
+    annotations: sortByPinName(annotations)
+  }
+}
+
+function sortByPinName<T>(record: Record<string, T>): Record<string, T> {
+  const sorted: Record<string, T> = {}
+  Object.keys(record)
+    .sort(compareNames)
+    .forEach(pin => {
+      sorted[pin] = record[pin]!
+    })
+  return sorted
+}
+
+export function serializeProject(project: PinMuxProject): string {
+  return `${JSON.stringify(project, null, 2)}\n`
+}
+
+/**
+ * 解析并校验工程文件结构
+ * @throws 文件不是合法的工程文件时抛出错误
+ */
+export function parseProject(text: string): PinMuxProject {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid project file: not valid JSON')
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Invalid project file: expected an object')
+  }
+  const data = raw as Record<string, unknown>
+  if (data.format !== PROJECT_FORMAT) {
+    throw new Error(`Invalid project file: "format" must be "${PROJECT_FORMAT}"`)
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_VERSION) {
+    throw new Error(`Unsupported project file version: ${String(data.version)}`)
+  }
+
+  const chip = data.chip as Record<string, unknown> | undefined
+  if (!chip || typeof chip !== 'object') {
+    throw new Error('Invalid project file: missing "chip" field')
+  }
+  for (const key of ['vendor', 'family', 'name', 'package']) {
+    if (typeof chip[key] !== 'string' || !chip[key]) {
+      throw new Error(`Invalid project file: "chip.${key}" must be a non-empty string`)
+    }
+  }
+
+  const assignments = data.assignments
+  if (!assignments || typeof assignments !== 'object' || Array.isArray(assignments)) {
+    throw new Error('Invalid project file: "assignments" must be an object')
+  }
+  const annotations = data.annotations ?? {}
+  if (!annotations || typeof annotations !== 'object' || Array.isArray(annotations)) {
+    throw new Error('Invalid project file: "annotations" must be an object')
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: data.version,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : '',
+    chip: {
+      vendor: chip.vendor as string,
+      family: chip.family as string,
+      name: chip.name as string,
+      package: chip.package as string,
+      hash: typeof chip.hash === 'string' ? chip.hash : ''
+    },
+    // 值在加载到芯片时由 validateConfigurations 逐项校验并迁移旧格式
+    assignments: assignments as Record<string, PinConfig>,
+    annotations: annotations as Record<string, PinAnnotation>
+  }
+}
+
+/**
+ * 检查工程文件记录的芯片与实际加载的芯片是否一致
+ * @returns 警告信息列表 (空数组表示完全一致)
+ */
+export function checkProjectChip(project: PinMuxProject, chip: ChipDefinition): string[] {
+  const warnings: string[] = []
+  if (project.chip.package !== chip.meta.package) {
+    warnings.push(`Package differs: project uses ${project.chip.package}, chip is ${chip.meta.package}`)
+  }
+  if (project.chip.hash && project.chip.hash !== hashChipDefinition(chip)) {
+    warnings.push('The chip definition has changed since this project was saved')
+  }
+  return warnings
+}
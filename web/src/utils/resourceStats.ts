@@ -0,0 +1,215 @@
+import type { ChipDefinition, PeripheralDefinition } from '@/types/chip'
+import { findFunctionContext } from '@/utils/pinmapUtils'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 一个可点击的统计数字：数值和它背后的引脚
+ */
+export interface StatFigure {
+  count: number
+  pins: string[]
+}
+
+/**
+ * 一个外设实例的使用情况
+ * - used: 至少有一个信号已配置
+ * - available: 未使用，且存在一组引脚全部空闲的 pinmap
+ * - blocked: 未使用，但每组 pinmap 都有引脚被占用或未引出
+ */
+export interface PeripheralInstanceStats {
+  name: string
+  status: 'used' | 'available' | 'blocked'
+  usedSignals: string[]
+  /** 已配置的引脚 (used) 或可用 pinmap 的引脚 (available) */
+  pins: string[]
+  /** 所有 pinmap 中引出的引脚 */
+  allPins: string[]
+}
+
+export interface PeripheralTypeStats {
+  type: string
+  instances: PeripheralInstanceStats[]
+  used: StatFigure
+  available: StatFigure
+  total: StatFigure
+}
+
+export interface TimerChannelStats {
+  name: string
+  /** 已用通道 (CHx / CHxN) */
+  used: StatFigure
+  /** 引出的通道总数 */
+  total: StatFigure
+}
+
+export interface PortStats {
+  port: string
+  free: StatFigure
+  used: StatFigure
+  total: StatFigure
+}
+
+export interface ResourceStats {
+  peripheralTypes: PeripheralTypeStats[]
+  timers: TimerChannelStats[]
+  adcChannels: { used: StatFigure; total: StatFigure }
+  ports: PortStats[]
+  /** 固定功能引脚，按引脚类型 (power/gnd/reset...) 分组 */
+  fixedPins: Array<{ type: string; figure: StatFigure }>
+  fixedTotal: StatFigure
+}
+
+// 只统计作为普通外设使用的类型 (SYS 等系统引脚按固定功能统计)
+const EXCLUDED_TYPES = ['sys', 'others']
+
+/**
+ * 按外设类型统计资源占用
+ * @param configurations 引脚 -> 功能名称
+ */
+export function computeResourceStats(chip: ChipDefinition, configurations: Record<string, string>): ResourceStats {
+  const bonded = new Set(chip.package.pins.filter(pin => pin.number !== 0).map(pin => pin.name))
+  const isFree = (pin: string) => bonded.has(pin) && !configurations[pin] && !chip.pins[pin]?.fixed
+
+  // 外设 -> 已配置的 信号 / 引脚
+  const usage = new Map<string, { signals: Set<string>; pins: Set<string> }>()
+  for (const [pin, func] of Object.entries(configurations)) {
+    const context = findFunctionContext(chip, func, pin)
+    if (!context) continue
+    const entry = usage.get(context.periphName) || { signals: new Set<string>(), pins: new Set<string>() }
+    entry.signals.add(context.signalName)
+    entry.pins.add(pin)
+    usage.set(context.periphName, entry)
+  }
+
+  // 1. 按类型统计外设实例
+  const byType = new Map<string, PeripheralInstanceStats[]>()
+  for (const name of Object.keys(chip.peripherals || {}).sort(compareNames)) {
+    const def = chip.peripherals![name]!
+    if (EXCLUDED_TYPES.includes(def.type)) continue
+    const allPins = getBondedPins(def, bonded)
+    if (allPins.length === 0) continue // 该封装上没有引出
+
+    const used = usage.get(name)
+    let instance: PeripheralInstanceStats
+    if (used) {
+      instance = { name, status: 'used', usedSignals: [...used.signals], pins: sortPins(used.pins), allPins }
+    } else {
+      const freeMap = (def.pinmaps || []).find(map => {
+        const pins = Object.values(map || {})
+        return pins.length > 0 && pins.every(isFree)
+      })
+      instance = freeMap
+        ? { name, status: 'available', usedSignals: [], pins: sortPins(Object.values(freeMap)), allPins }
+        : { name, status: 'blocked', usedSignals: [], pins: [], allPins }
+    }
+    byType.set(def.type, [...(byType.get(def.type) || []), instance])
+  }
+
+  const peripheralTypes = [...byType.entries()].map(([type, instances]): PeripheralTypeStats => ({
+    type,
+    instances,
+    used: figure(instances.filter(i => i.status === 'used')),
+    available: figure(instances.filter(i => i.status === 'available')),
+    total: { count: instances.length, pins: sortPins(instances.flatMap(i => i.allPins)) }
+  }))
+
+  // 2. 定时器通道
+  const timers = (byType.get('timer') || []).map((instance): TimerChannelStats => {
+    const def = chip.peripherals![instance.name]!
+    const channels = Object.keys(def.signals || {}).filter(isTimerChannel)
+    const channelPins = channels.flatMap(signal => (def.signals[signal] || []).filter(pin => bonded.has(pin)))
+    const usedChannels = instance.usedSignals.filter(isTimerChannel)
+    return {
+      name: instance.name,
+      used: {
+        count: usedChannels.length,
+        pins: instance.pins.filter(pin => usedChannels.includes(findFunctionContext(chip, configurations[pin]!, pin)?.signalName || ''))
+      },
+      total: {
+        count: channels.filter(signal => (def.signals[signal] || []).some(pin => bonded.has(pin))).length,
+        pins: sortPins(channelPins)
+      }
+    }
+  })
+
+  // 3. ADC 通道 (多个 ADC 共用通道引脚时按引脚计)
+  const adcPins = new Set<string>()
+  const usedAdcPins = new Set<string>()
+  for (const [name, def] of Object.entries(chip.peripherals || {})) {
+    if (def.type !== 'adc') continue
+    for (const [signal, pins] of Object.entries(def.signals || {})) {
+      if (!/^IN\d+$/.test(signal)) continue
+      pins.filter(pin => bonded.has(pin)).forEach(pin => adcPins.add(pin))
+    }
+    usage.get(name)?.pins.forEach(pin => usedAdcPins.add(pin))
+  }
+
+  // 4. 按端口统计 GPIO
+  const portMap = new Map<string, { free: string[]; used: string[] }>()
+  for (const pin of sortPins(bonded)) {
+    const port = pin.match(/^P([A-Z])\d+$/)?.[1]
+    if (!port || chip.pins[pin]?.type !== 'gpio') continue
+    const entry = portMap.get(port) || { free: [], used: [] }
+    if (configurations[pin]) entry.used.push(pin)
+    else entry.free.push(pin)
+    portMap.set(port, entry)
+  }
+  const ports = [...portMap.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([port, { free, used }]) => ({
+      port: `P${port}`,
+      free: { count: free.length, pins: free },
+      used: { count: used.length, pins: used },
+      total: { count: free.length + used.length, pins: [...free, ...used] }
+    }))
+
+  // 5. 固定功能引脚 (按物理引脚计数，同名电源引脚分别计算)
+  const fixedByType = new Map<string, { count: number; pins: Set<string> }>()
+  for (const pin of chip.package.pins) {
+    const cap = chip.pins[pin.name]
+    if (pin.number === 0 || !cap?.fixed) continue
+    const entry = fixedByType.get(cap.type) || { count: 0, pins: new Set<string>() }
+    entry.count++
+    entry.pins.add(pin.name)
+    fixedByType.set(cap.type, entry)
+  }
+  const fixedPins = [...fixedByType.entries()].map(([type, { count, pins }]) => ({
+    type,
+    figure: { count, pins: sortPins(pins) }
+  }))
+
+  return {
+    peripheralTypes,
+    timers,
+    adcChannels: {
+      used: { count: usedAdcPins.size, pins: sortPins(usedAdcPins) },
+      total: { count: adcPins.size, pins: sortPins(adcPins) }
+    },
+    ports,
+    fixedPins,
+    fixedTotal: {
+      count: fixedPins.reduce((sum, item) => sum + item.figure.count, 0),
+      pins: sortPins(fixedPins.flatMap(item => item.figure.pins))
+    }
+  }
+}
+
+function getBondedPins(def: PeripheralDefinition, bonded: Set<string>): string[] {
+  const pins = new Set<string>()
+  for (const map of def.pinmaps || []) {
+    Object.values(map || {}).forEach(pin => bonded.has(pin) && pins.add(pin))
+  }
+  return sortPins(pins)
+}
+
+function figure(instances: PeripheralInstanceStats[]): StatFigure {
+  return { count: instances.length, pins: sortPins(instances.flatMap(i => i.pins)) }
+}
+
+function isTimerChannel(signal: string): boolean {
+  return /^CH\d+N?$/.test(signal)
+}
+
+function sortPins(pins: Iterable<string>): string[] {
+  return [...new Set(pins)].sort(compareNames)
+}
@@ -0,0 +1,53 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation, PinConfig, PinMuxProject } from '@/types/pinmux'
+import { createProject, parseProject } from '@/utils/projectFile'
+
+/** 分享链接中保存配置的查询参数名 */
+export const SHARE_QUERY_KEY = 'c'
+
+/**
+ * 将配置编码为可放入 URL 的字符串
+ * 内容与工程文件相同 (去掉保存时间)，经 deflate 压缩后使用 base64url 编码
+ */
+export async function encodeSharedConfiguration(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+): Promise<string> {
+  const project: Partial<PinMuxProject> = createProject(chip, configurations, annotations)
+  delete project.savedAt
+  const compressed = await transform(new TextEncoder().encode(JSON.stringify(project)), new CompressionStream('deflate-raw'))
+  return toBase64Url(compressed)
+}
+
+/**
+ * 解码分享链接中的配置
+ * @throws 字符串损坏或内容不是合法的工程时抛出错误
+ */
+export async function decodeSharedConfiguration(encoded: string): Promise<PinMuxProject> {
+  let text: string
+  try {
+    const bytes = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'))
+    text = new TextDecoder().decode(bytes)
+  } catch {
+    throw new Error('The configuration in this link is damaged or truncated')
+  }
+  return parseProject(text)
+}
+
+async function transform(input: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([input as BlobPart]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)))
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
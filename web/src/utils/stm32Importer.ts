@@ -0,0 +1,258 @@
+import type { ChipDefinition, ChipMeta, PeripheralDefinition, PhysicalPin, PinCapability } from '@/types/chip'
+import { GPIO_REGEX, DEFAULT_SPECIAL_TYPE } from '@/config/pinConfig'
+import { mapCategoryToType } from '@/utils/chipInferencer'
+import { getPinmapSuffix } from '@/utils/pinmapUtils'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * STM32 导入结果
+ */
+export interface Stm32ImportResult {
+  chip: ChipDefinition
+  warnings: string[]
+}
+
+/**
+ * 简化的 XML 元素 (只保留导入需要的属性、子元素和文本)
+ */
+interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string
+}
+
+// 由多个单词组成的外设实例名，信号名从其后开始
+const COMPOUND_INSTANCES = ['USB_OTG_FS', 'USB_OTG_HS']
+
+// 系统功能统一归入 SYS 分组
+const SYSTEM_INSTANCES = ['SYS', 'RCC', 'DEBUG', 'PWR']
+
+/**
+ * 从 MCU 文件中找到对应的 GPIO IP 文件名 (位于 MCU 文件所在目录的 IP/ 子目录)
+ * 如 `<IP Name="GPIO" Version="STM32F417_gpio_v1_0"/>` -> `GPIO-STM32F417_gpio_v1_0_Modes.xml`
+ */
+export function getGpioModesFileName(mcuXml: string): string | undefined {
+  const gpio = parseXml(mcuXml).children.find(child => child.name === 'IP' && child.attributes.Name === 'GPIO')
+  return gpio?.attributes.Version ? `GPIO-${gpio.attributes.Version}_Modes.xml` : undefined
+}
+
+/**
+ * 由 STM32 开放引脚数据 (STM32_open_pin_data 中的 MCU 文件和 GPIO IP 文件) 生成芯片定义
+ *
+ * - 引脚名取 GPIO 部分 (PC14-OSC32_IN -> PC14)，类型取 MCU 文件中的 Type
+ * - STM32 按引脚选择 AF 编号而不是整体重映射，每个信号的每个引脚选项各占一个 pinmap，
+ *   外设标记为 pinmapStyle: 'per-pin'，AF 编号来自 GPIO IP 文件 (可选)
+ */
+export function importStm32Mcu(mcuXml: string, gpioXml?: string, options: { name?: string } = {}): Stm32ImportResult {
+  const warnings: string[] = []
+  const root = parseXml(mcuXml)
+  if (root.name !== 'Mcu') {
+    throw new Error(`Not an STM32 MCU file: expected <Mcu> root element, found <${root.name}>`)
+  }
+
+  const afNumbers = gpioXml ? parseAlternateFunctions(gpioXml) : new Map<string, number>()
+  if (!gpioXml) warnings.push('No GPIO IP file was given; AF numbers are left empty')
+
+  const texts = (name: string) => root.children.filter(child => child.name === name).map(child => child.text.trim())
+  const attrs = root.attributes
+  const meta: ChipMeta = {
+    vendor: 'ST',
+    family: attrs.Line || attrs.Family || '',
+    name: options.name || attrs.RefName || '',
+    core: (texts('Core')[0] || '').replace(/^Arm\s+/i, ''),
+    package: attrs.Package || '',
+    ...(texts('Flash').length > 0 ? { flash: texts('Flash').map(size => `${size}K`).join('/') } : {}),
+    ...(texts('Ram').length > 0 ? { sram: texts('Ram').map(size => `${size}K`).join('/') } : {}),
+    datasheet: ''
+  }
+
+  // 1. 封装引脚与引脚类型
+  const physicalPins: PhysicalPin[] = []
+  const pins: Record<string, PinCapability> = {}
+  // 实例 -> 信号 -> 引脚
+  const instances = new Map<string, Map<string, string[]>>()
+
+  root.children.filter(child => child.name === 'Pin').forEach((element, index) => {
+    const rawName = element.attributes.Name || ''
+    const name = rawName.match(/^P[A-Z]\d+/)?.[0] || rawName.trim()
+    const position = element.attributes.Position || ''
+    if (/^\d+$/.test(position)) {
+      physicalPins.push({ number: parseInt(position, 10), name })
+    } else {
+      // BGA / WLCSP：Position 为焊球位置
+      physicalPins.push({ number: index + 1, name, ball: position.toUpperCase() })
+    }
+
+    const type = getPinType(name, element.attributes.Type || '')
+    if (!pins[name]) {
+      pins[name] = { type, fixed: type !== 'gpio', functions: type === 'gpio' ? ['GPIO'] : [getFixedFunction(name, type)] }
+    }
+
+    for (const signal of element.children.filter(child => child.name === 'Signal')) {
+      for (const [instance, signalName] of splitSignalName(signal.attributes.Name || '')) {
+        const signals = instances.get(instance) || new Map<string, string[]>()
+        const signalPins = signals.get(signalName) || []
+        if (!signalPins.includes(name)) signalPins.push(name)
+        signals.set(signalName, signalPins)
+        instances.set(instance, signals)
+      }
+    }
+  })
+
+  // 2. 外设：每个 信号/引脚 选项一个 pinmap
+  const peripherals: Record<string, PeripheralDefinition> = {}
+  for (const instance of [...instances.keys()].sort(compareNames)) {
+    const signals = instances.get(instance)!
+    const isSystem = SYSTEM_INSTANCES.includes(instance)
+    const group = isSystem ? 'SYS' : instance.replace(/\d+$/, '')
+    const pinmaps: Array<Record<string, string>> = []
+    const alternateFunctions: Array<number | null> = []
+
+    for (const signalName of [...signals.keys()].sort(compareNames)) {
+      for (const pin of signals.get(signalName)!.sort(compareNames)) {
+        const mapIndex = pinmaps.length
+        pinmaps.push({ [signalName]: pin })
+        alternateFunctions.push(afNumbers.get(`${pin}|${instance}_${signalName}`) ?? null)
+        pins[pin]?.functions.push(`${instance}_${signalName}${getPinmapSuffix(mapIndex)}`)
+      }
+    }
+
+    peripherals[instance] = {
+      type: isSystem ? 'sys' : mapCategoryToType(group),
+      group,
+      description: group,
+      signals: Object.fromEntries([...signals.entries()].map(([signal, signalPins]) => [signal, [...signalPins]])),
+      pinmaps,
+      pinmapStyle: 'per-pin',
+      alternateFunctions
+    }
+  }
+
+  if (physicalPins.length === 0) warnings.push('The MCU file has no <Pin> elements')
+  const pinCount = physicalPins.some(pin => pin.ball)
+    ? physicalPins.length
+    : physicalPins.reduce((max, pin) => Math.max(max, pin.number), 0)
+
+  return {
+    chip: {
+      meta,
+      package: { type: meta.package, pinCount, pins: physicalPins.sort((a, b) => a.number - b.number) },
+      pins,
+      peripherals
+    },
+    warnings
+  }
+}
+
+/**
+ * 读取 GPIO IP 文件中的 AF 编号
+ * @returns `${引脚}|${信号}` -> AF 编号 (GPIO_AF7_USART1 -> 7)
+ */
+function parseAlternateFunctions(gpioXml: string): Map<string, number> {
+  const result = new Map<string, number>()
+  for (const pinElement of findElements(parseXml(gpioXml), 'GPIO_Pin')) {
+    const pin = pinElement.attributes.Name?.match(/^P[A-Z]\d+/)?.[0]
+    if (!pin) continue
+    for (const signal of pinElement.children.filter(child => child.name === 'PinSignal')) {
+      const values = findElements(signal, 'PossibleValue').map(value => value.text)
+      const af = values.map(value => value.match(/GPIO_AF(\d+)_/)?.[1]).find(Boolean)
+      if (af !== undefined && signal.attributes.Name) result.set(`${pin}|${signal.attributes.Name}`, parseInt(af, 10))
+    }
+  }
+  return result
+}
+
+/**
+ * 拆分信号名为 [实例, 信号]
+ * USART1_TX -> USART1 / TX；USB_OTG_FS_DM -> USB_OTG_FS / DM；ADC12_IN0 -> ADC1 / IN0 与 ADC2 / IN0
+ * GPIO、EVENTOUT 等不属于外设的信号返回空数组
+ */
+function splitSignalName(signal: string): Array<[string, string]> {
+  const compound = COMPOUND_INSTANCES.find(prefix => signal.startsWith(`${prefix}_`))
+  const separator = compound ? compound.length : signal.indexOf('_')
+  if (separator <= 0) return []
+
+  const instance = signal.slice(0, separator)
+  const name = signal.slice(separator + 1)
+  const shared = instance.match(/^ADC(\d{2,})$/)
+  if (shared) return [...shared[1]!].map(index => [`ADC${index}`, name])
+  return [[instance, name]]
+}
+
+function getPinType(name: string, xmlType: string): string {
+  switch (xmlType) {
+    case 'I/O':
+      return GPIO_REGEX.test(name) ? 'gpio' : DEFAULT_SPECIAL_TYPE
+    case 'Power':
+      return /^(VSS|GND)/.test(name) ? 'gnd' : 'power'
+    case 'Reset':
+      return 'reset'
+    case 'Boot':
+      return 'boot'
+    case 'NC':
+      return 'nc'
+    default:
+      // MonoIO 等：晶振引脚归为 clock
+      return /OSC/.test(name) ? 'clock' : DEFAULT_SPECIAL_TYPE
+  }
+}
+
+// 固定功能引脚的默认功能名，与 inferChipData 一致
+function getFixedFunction(name: string, type: string): string {
+  if (type === 'gnd') return 'GND'
+  if (type === 'reset') return 'NRST'
+  if (type === 'nc') return 'NC'
+  return name
+}
+
+function findElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap(child => [...(child.name === name ? [child] : []), ...findElements(child, name)])
+}
+
+/**
+ * 解析 XML 文本 (不依赖 DOMParser，Node 脚本和浏览器中都可用)
+ * 只支持元素、属性和文本，忽略处理指令、注释和 DOCTYPE
+ * @throws 标签不匹配时抛出错误
+ */
+function parseXml(xml: string): XmlElement {
+  const source = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, '')
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack: XmlElement[] = [document]
+  const tagPattern = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+
+  for (const match of source.matchAll(tagPattern)) {
+    const [, closing, tagName, attributeText = '', selfClosing, text] = match
+    const current = stack[stack.length - 1]!
+    if (text !== undefined) {
+      current.text += decodeEntities(text)
+      continue
+    }
+    const name = tagName!.replace(/^[\w.-]+:/, '')
+    if (closing) {
+      if (current.name !== name) throw new Error(`Invalid XML: unexpected </${name}>`)
+      stack.pop()
+      continue
+    }
+    const element: XmlElement = { name, attributes: {}, children: [], text: '' }
+    for (const attribute of attributeText.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      element.attributes[attribute[1]!] = decodeEntities(attribute[2] ?? attribute[3] ?? '')
+    }
+    current.children.push(element)
+    if (!selfClosing) stack.push(element)
+  }
+
+  if (stack.length !== 1) throw new Error(`Invalid XML: <${stack[stack.length - 1]!.name}> is not closed`)
+  const root = document.children[0]
+  if (!root) throw new Error('Invalid XML: no root element')
+  return root
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
@@ -0,0 +1,24 @@
+/**
+ * 各导出器和工具共用的文本处理函数
+ */
+
+/**
+ * 按自然顺序比较名称，数字部分按数值比较 (PA2 < PA10, USART2 < USART10)
+ */
+export function compareNames(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true })
+}
+
+/**
+ * 转义 HTML / XML 文本和属性值中的特殊字符
+ */
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * 输出坐标等数值时保留最多两位小数，去掉多余的 0
+ */
+export function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
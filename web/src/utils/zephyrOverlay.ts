@@ -0,0 +1,239 @@
+import type { ChipDefinition } from '@/types/chip'
+import type { PinAnnotation, PinConfig } from '@/types/pinmux'
+import { getSignalFunctionName } from '@/utils/pinmapUtils'
+import { compareNames } from '@/utils/textUtils'
+
+/**
+ * 一个外设已启用的信号 (由 pinmaps 反查得到)
+ */
+export interface ZephyrSignal {
+  signal: string
+  pin: string
+  mapIndex: number
+  config: PinConfig
+}
+
+// 不生成 pinctrl 的外设类型 (调试接口等系统引脚由 SoC 默认配置)
+const SKIPPED_TYPES = ['sys']
+
+// PinConfig.speed -> WCH pinctrl 的 slew-rate
+const SLEW_RATES: Record<PinConfig['speed'], string> = {
+  low: 'max-speed-2mhz',
+  medium: 'max-speed-10mhz',
+  high: 'max-speed-50mhz'
+}
+
+// PinConfig.speed -> STM32 pinctrl 的 slew-rate
+const STM32_SLEW_RATES: Record<PinConfig['speed'], string> = {
+  low: 'low-speed',
+  medium: 'medium-speed',
+  high: 'very-high-speed'
+}
+
+/**
+ * 按外设收集已启用的信号
+ * 遍历每个外设的 pinmaps：某个 pinmap 中的信号所在引脚配置成了该信号对应的功能，即视为启用，
+ * 其 pinmap 序号就是重映射值
+ */
+export function collectZephyrSignals(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>
+): Map<string, ZephyrSignal[]> {
+  const result = new Map<string, ZephyrSignal[]>()
+  const bonded = new Set(chip.package.pins.map(pin => pin.name))
+
+  for (const periphName of Object.keys(chip.peripherals || {}).sort(compareNames)) {
+    const def = chip.peripherals![periphName]!
+    if (SKIPPED_TYPES.includes(def.type)) continue
+
+    const signals: ZephyrSignal[] = []
+    def.pinmaps.forEach((map, mapIndex) => {
+      for (const [signal, pin] of Object.entries(map || {})) {
+        const config = configurations[pin]
+        if (!config || !bonded.has(pin)) continue
+        if (config.function !== getSignalFunctionName(chip, periphName, signal, mapIndex, pin)) continue
+        // 同一信号可能在多个 pinmap 中映射到同一引脚，保留序号最小的一个
+        if (signals.some(item => item.signal === signal && item.pin === pin)) continue
+        signals.push({ signal, pin, mapIndex, config })
+      }
+    })
+    if (signals.length > 0) {
+      result.set(periphName, signals.sort((a, b) => compareNames(a.signal, b.signal)))
+    }
+  }
+  return result
+}
+
+/**
+ * 生成 Zephyr 设备树 overlay：每个启用的外设一个 pinctrl 状态 (`<label>_default`)，
+ * 以及 `&<label> { pinctrl-0 = ...; status = "okay"; }` 节点
+ *
+ * pinmux 宏按 WCH pinctrl 头文件的命名 `<PERIPH>_<SIGNAL>_<PIN>_<REMAP>` 生成，如 USART1_TX_PA9_0；
+ * 其他厂商的芯片同样按此命名生成，但在文件头部注明需要按该 SoC 的 pinctrl 绑定修改
+ * per-pin 外设 (STM32 按引脚选择 AF) 直接引用 SoC 设备树中的 `<periph>_<signal>_<pin>` 节点，如 &usart1_tx_pa9，
+ * 电气属性写在对该节点的覆盖中，AF 编号作为注释
+ * 节点标签为外设名的小写形式，与芯片数据中的命名一致；引脚的网络标签和备注作为注释写在所在 group 中
+ */
+export function generateZephyrOverlay(
+  chip: ChipDefinition,
+  configurations: Record<string, PinConfig>,
+  annotations: Record<string, PinAnnotation> = {}
+): string {
+  const signalsByPeriph = collectZephyrSignals(chip, configurations)
+  const { meta } = chip
+  const isPerPin = (periphName: string) => chip.peripherals?.[periphName]?.pinmapStyle === 'per-pin'
+  const remapPeriphs = [...signalsByPeriph.keys()].filter(periphName => !isPerPin(periphName))
+  const perPinPeriphs = [...signalsByPeriph.keys()].filter(isPerPin)
+
+  const lines: string[] = [
+    '/*',
+    ` * Pin control overlay for ${meta.name} (${meta.package})`,
+    ' * Generated by PinMuxLab.',
+    ...(remapPeriphs.length > 0
+      ? [
+          ' *',
+          ' * Pinmux macros follow <PERIPH>_<SIGNAL>_<PIN>_<REMAP> from the WCH pinctrl',
+          ' * dt-bindings header included by the SoC devicetree. <REMAP> is the pinmap index.'
+        ]
+      : []),
+    ...(remapPeriphs.length > 0 && meta.vendor !== 'WCH'
+      ? [
+          ' *',
+          ` * WARNING: ${toComment(meta.vendor)} chips do not use the WCH pinctrl bindings. Replace the`,
+          ' * pinmux macros with the ones from the pinctrl header of this SoC before use.'
+        ]
+      : []),
+    ...(perPinPeriphs.length > 0
+      ? [
+          ' *',
+          ' * Pins selected by alternate function number reference the <periph>_<signal>_<pin>',
+          ' * pinctrl nodes of the SoC devicetree (STM32 naming).'
+        ]
+      : []),
+    ' */',
+    ''
+  ]
+
+  if (signalsByPeriph.size === 0) {
+    lines.push('/* No peripheral signals are assigned. */', '')
+    return lines.join('\n')
+  }
+
+  // 1. pinctrl 状态 (整体重映射的外设)
+  if (remapPeriphs.length > 0) {
+    lines.push('&pinctrl {')
+    for (const periphName of remapPeriphs) {
+      const signals = signalsByPeriph.get(periphName)!
+      const label = getNodeLabel(periphName)
+      const mapIndices = [...new Set(signals.map(item => item.mapIndex))].sort((a, b) => a - b)
+
+      lines.push(`\t${label}_default: ${label}_default {`)
+      lines.push(`\t\t/* ${describePinmaps(mapIndices)} */`)
+      if (mapIndices.length > 1) {
+        lines.push('\t\t/* WARNING: signals use different pinmaps, but the remap register selects only one */')
+      }
+
+      // 属性相同的引脚放在同一个 group 中
+      const groups = new Map<string, { properties: string[]; macros: string[]; comments: string[] }>()
+      for (const item of signals) {
+        const properties = getPinProperties(item.config, SLEW_RATES)
+        const key = properties.join(';')
+        const group = groups.get(key) || { properties, macros: [], comments: [] }
+        group.macros.push(`${periphName}_${item.signal}_${item.pin}_${item.mapIndex}`.toUpperCase())
+        const comment = describeAnnotation(annotations[item.pin])
+        if (comment) group.comments.push(`${item.pin} ${comment}`)
+        groups.set(key, group)
+      }
+      let groupIndex = 1
+      for (const { properties, macros, comments } of groups.values()) {
+        lines.push(`\t\tgroup${groupIndex++} {`)
+        comments.forEach(comment => lines.push(`\t\t\t/* ${comment} */`))
+        lines.push(`\t\t\tpinmux = ${macros.map(macro => `<${macro}>`).join(', ')};`)
+        properties.forEach(property => lines.push(`\t\t\t${property};`))
+        lines.push('\t\t};')
+      }
+      lines.push('\t};', '')
+    }
+    // 去掉最后一个外设后的空行
+    if (lines[lines.length - 1] === '') lines.pop()
+    lines.push('};', '')
+  }
+
+  // 2. per-pin 外设：覆盖 SoC 引脚节点的电气属性 (模拟功能没有需要覆盖的属性)
+  for (const periphName of perPinPeriphs) {
+    for (const item of signalsByPeriph.get(periphName)!) {
+      const properties = getPinProperties(item.config, STM32_SLEW_RATES)
+      if (properties.length === 0) continue
+      lines.push(`&${getPinNodeLabel(periphName, item)} {`, ...properties.map(property => `\t${property};`), '};', '')
+    }
+  }
+
+  // 3. 外设节点
+  for (const [periphName, signals] of signalsByPeriph) {
+    const label = getNodeLabel(periphName)
+    lines.push(`&${label} {`)
+    if (isPerPin(periphName)) {
+      const alternateFunctions = chip.peripherals![periphName]!.alternateFunctions || []
+      for (const item of signals) {
+        const af = alternateFunctions[item.mapIndex]
+        const annotation = describeAnnotation(annotations[item.pin])
+        const details = [af !== null && af !== undefined ? `AF${af}` : '', annotation].filter(Boolean).join(', ')
+        lines.push(`\t/* ${item.signal}: ${item.pin}${details ? ` (${details})` : ''} */`)
+      }
+      lines.push(`\tpinctrl-0 = <${signals.map(item => `&${getPinNodeLabel(periphName, item)}`).join(' ')}>;`)
+    } else {
+      lines.push(`\tpinctrl-0 = <&${label}_default>;`)
+    }
+    lines.push('\tpinctrl-names = "default";', '\tstatus = "okay";', '};', '')
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * 引脚电气属性 -> pinctrl 属性
+ */
+function getPinProperties(config: PinConfig, slewRates: Record<PinConfig['speed'], string>): string[] {
+  switch (config.mode) {
+    case 'input':
+      if (config.pull === 'up') return ['bias-pull-up']
+      if (config.pull === 'down') return ['bias-pull-down']
+      return ['bias-disable']
+    case 'output':
+    case 'alternate': {
+      const properties = [
+        config.drive === 'open-drain' ? 'drive-open-drain' : 'drive-push-pull',
+        `slew-rate = "${slewRates[config.speed]}"`
+      ]
+      if (config.mode === 'output') properties.push(config.initialState === 'high' ? 'output-high' : 'output-low')
+      return properties
+    }
+    default:
+      return [] // analog：不需要额外属性
+  }
+}
+
+function describePinmaps(mapIndices: number[]): string {
+  return mapIndices.map(index => (index === 0 ? 'default pinmap' : `remap ${index}`)).join(', ')
+}
+
+// DBG_TX: 接调试座 J3
+function describeAnnotation(annotation: PinAnnotation | undefined): string {
+  if (!annotation) return ''
+  const text = [annotation.label, annotation.note].filter(Boolean).join(': ')
+  return toComment(text)
+}
+
+// 避免自由文本提前结束注释
+function toComment(text: string): string {
+  return text.replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim()
+}
+
+function getNodeLabel(periphName: string): string {
+  return periphName.toLowerCase().replace(/[^a-z0-9_]/g, '_')
+}
+
+// USART1 TX PA9 -> usart1_tx_pa9
+function getPinNodeLabel(periphName: string, item: ZephyrSignal): string {
+  return getNodeLabel(`${periphName}_${item.signal}_${item.pin}`)
+}